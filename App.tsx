@@ -1,16 +1,18 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { useAppState } from './hooks/useAppState.tsx';
-import type { ActiveView, FoodEntry, ExerciseEntry, DailyLog, ChatMessage, AppState, FoodAnalysis, UserProfile, MacronutrientGoals } from './types';
-import { getAiAdvice, getAiFoodAnalysis } from './services/geminiService';
-import { HomeIcon, ClipboardIcon, SparklesIcon, TrashIcon, SendIcon, SettingsIcon, CameraIcon, ChevronLeftIcon, ChevronRightIcon, UserCircleIcon, DownloadIcon, UploadIcon, RefreshIcon } from './components/Icons';
+import type { ActiveView, FoodEntry, ExerciseEntry, DailyLog, ChatMessage, AiAction, AppState, DetectedFoodItem, UserProfile, MacronutrientGoals, BodyMeasurement, GoalPlan, AiProviderKind } from './types';
+import { streamAiAdvice, getAiFoodAnalysis, getSystemInstruction } from './services/aiService';
+import { AI_PROVIDERS, createAiProvider, isAiConfigured } from './services/aiProvider';
+import { getAiErrorMessage } from './services/aiErrors';
+import { HomeIcon, ClipboardIcon, SparklesIcon, TrashIcon, SendIcon, StopIcon, SettingsIcon, CameraIcon, ChevronLeftIcon, ChevronRightIcon, UserCircleIcon, DownloadIcon, UploadIcon, RefreshIcon } from './components/Icons';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, Dialog, DialogTrigger, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription, DialogClose } from './components/ui';
 import { Button, Input, Label, Select } from './components/ui';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 import { useTranslation } from './hooks/useTranslation';
-
-// --- Helper Functions ---
-const getDateString = (date: Date): string => date.toISOString().split('T')[0];
-const isToday = (date: Date): boolean => getDateString(date) === getDateString(new Date());
+import { useAbortSignal } from './hooks/useAbortSignal';
+import { decodeBarcodeFromSource, normalizeBarcode } from './utils/barcode';
+import { resolveTargets, TargetSource } from './utils/targets';
+import { addDaysToKey, formatDateKey, toDateKey } from './utils/date';
 
 // --- Recharts Pie Chart Label ---
 const RADIAN = Math.PI / 180;
@@ -27,9 +29,12 @@ const renderCustomizedLabel = ({ cx, cy, midAngle, innerRadius, outerRadius, per
 };
 
 // --- Camera Component ---
-const CameraView = ({ onClose, onScan, isScanning, t }: { onClose: () => void, onScan: (data: string) => Promise<void>, isScanning: boolean, t: (key: string) => string }) => {
+const CameraView = ({ onClose, onScan, onBarcode, isScanning, t }: { onClose: () => void, onScan: (data: string) => Promise<void>, onBarcode: (code: string) => void, isScanning: boolean, t: (key: string) => string }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const [error, setError] = useState('');
+    const [mode, setMode] = useState<'food' | 'barcode'>('food');
+    const [barcodeError, setBarcodeError] = useState('');
+    const [manualCode, setManualCode] = useState('');
     const uploadInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
@@ -57,6 +62,21 @@ const CameraView = ({ onClose, onScan, isScanning, t }: { onClose: () => void, o
         };
     }, [t]);
 
+    // Decode barcodes from the live stream while in barcode mode
+    useEffect(() => {
+        if (mode !== 'barcode') return;
+        const interval = setInterval(() => {
+            const video = videoRef.current;
+            if (!video || video.readyState < 2) return;
+            const code = decodeBarcodeFromSource(video, video.videoWidth, video.videoHeight);
+            if (code) {
+                clearInterval(interval);
+                onBarcode(code);
+            }
+        }, 300);
+        return () => clearInterval(interval);
+    }, [mode, onBarcode]);
+
     const handleCapture = () => {
         if (videoRef.current) {
             const canvas = document.createElement('canvas');
@@ -73,13 +93,37 @@ const CameraView = ({ onClose, onScan, isScanning, t }: { onClose: () => void, o
         if (file) {
             const reader = new FileReader();
             reader.onload = (e) => {
-                const base64 = (e.target?.result as string)?.split(',')[1];
+                const dataUrl = e.target?.result as string;
+                if (mode === 'barcode') {
+                    const image = new Image();
+                    image.onload = () => {
+                        const code = decodeBarcodeFromSource(image, image.naturalWidth, image.naturalHeight);
+                        if (code) {
+                            onBarcode(code);
+                        } else {
+                            setBarcodeError(t('camera.barcode.not_found'));
+                        }
+                    };
+                    image.src = dataUrl;
+                    return;
+                }
+                const base64 = dataUrl?.split(',')[1];
                 if (base64) {
                     onScan(base64);
                 }
             };
             reader.readAsDataURL(file);
         }
+        event.target.value = '';
+    };
+
+    const handleManualCode = () => {
+        const code = normalizeBarcode(manualCode);
+        if (code) {
+            onBarcode(code);
+        } else {
+            setBarcodeError(t('camera.barcode.invalid_code'));
+        }
     };
     
     if (error) {
@@ -88,8 +132,15 @@ const CameraView = ({ onClose, onScan, isScanning, t }: { onClose: () => void, o
 
     return (
         <div className="flex flex-col items-center">
+            <div className="flex justify-center bg-white/5 rounded-full p-1 border border-white/10 w-full max-w-xs mb-4">
+                <button onClick={() => setMode('food')} className={`w-full p-1.5 rounded-full text-sm font-semibold transition-all duration-300 ${mode === 'food' ? 'bg-blue-600 text-white shadow-md' : 'text-gray-400 hover:bg-white/10'}`}>{t('camera.mode_food')}</button>
+                <button onClick={() => { setMode('barcode'); setBarcodeError(''); }} className={`w-full p-1.5 rounded-full text-sm font-semibold transition-all duration-300 ${mode === 'barcode' ? 'bg-blue-600 text-white shadow-md' : 'text-gray-400 hover:bg-white/10'}`}>{t('camera.mode_barcode')}</button>
+            </div>
             <div className="w-full bg-black rounded-lg overflow-hidden mb-4 relative">
                 <video ref={videoRef} autoPlay playsInline className="w-full h-auto"></video>
+                {mode === 'barcode' && (
+                    <div className="absolute inset-x-6 top-1/2 -translate-y-1/2 h-1/3 border-2 border-blue-400/80 rounded-lg pointer-events-none"></div>
+                )}
                 {isScanning && (
                      <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center text-white">
                         <div className="w-8 h-8 border-4 border-t-transparent border-blue-500 rounded-full animate-spin"></div>
@@ -97,39 +148,54 @@ const CameraView = ({ onClose, onScan, isScanning, t }: { onClose: () => void, o
                     </div>
                 )}
             </div>
-            <div className="grid grid-cols-2 gap-2 w-full">
-                <Button onClick={handleCapture} disabled={isScanning}>
-                    <CameraIcon className="w-5 h-5 mr-2" />
-                    {t('log.scan_food')}
-                </Button>
-                <Button onClick={() => uploadInputRef.current?.click()} disabled={isScanning} className="bg-green-600 hover:bg-green-700">
-                    <UploadIcon className="w-5 h-5 mr-2" />
-                    {t('log.upload_image')}
-                </Button>
-                <input type="file" accept="image/*" ref={uploadInputRef} onChange={handleFileUpload} className="hidden" />
-            </div>
+            {mode === 'barcode' ? (
+                <div className="w-full space-y-2">
+                    <p className="text-sm text-gray-400 text-center">{t('camera.barcode.hint')}</p>
+                    <div className="flex gap-2">
+                        <Input type="text" inputMode="numeric" value={manualCode} onChange={(e) => setManualCode(e.target.value)} placeholder={t('camera.barcode.manual_placeholder')} className="flex-1" />
+                        <Button onClick={handleManualCode} disabled={manualCode.trim() === ''}>{t('general.confirm')}</Button>
+                    </div>
+                    <Button onClick={() => uploadInputRef.current?.click()} className="w-full bg-green-600 hover:bg-green-700">
+                        <UploadIcon className="w-5 h-5 mr-2" />
+                        {t('log.upload_image')}
+                    </Button>
+                    {barcodeError && <p className="text-red-400 text-sm text-center">{barcodeError}</p>}
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 gap-2 w-full">
+                    <Button onClick={handleCapture} disabled={isScanning}>
+                        <CameraIcon className="w-5 h-5 mr-2" />
+                        {t('log.scan_food')}
+                    </Button>
+                    <Button onClick={() => uploadInputRef.current?.click()} disabled={isScanning} className="bg-green-600 hover:bg-green-700">
+                        <UploadIcon className="w-5 h-5 mr-2" />
+                        {t('log.upload_image')}
+                    </Button>
+                </div>
+            )}
+            <input type="file" accept="image/*" ref={uploadInputRef} onChange={handleFileUpload} className="hidden" />
         </div>
     );
 };
 
-const DateNavigator = ({ selectedDate, changeDate, t, locale }: { selectedDate: Date; changeDate: (days: number) => void; t: (key: string) => string; locale: string; }) => {
-    const displayDate = isToday(selectedDate) 
+const DateNavigator = ({ dateString, isToday, changeDate, t, locale }: { dateString: string; isToday: boolean; changeDate: (days: number) => void; t: (key: string) => string; locale: string; }) => {
+    const displayDate = isToday
         ? t('general.today') 
-        : selectedDate.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+        : formatDateKey(dateString, locale, { year: 'numeric', month: 'short', day: 'numeric' });
 
     return (
         <div className="flex items-center justify-center space-x-2 bg-white/5 p-1 rounded-full border border-white/10">
             <Button size="icon" className="h-8 w-8 flex-shrink-0 bg-transparent hover:bg-white/10 rounded-full shadow-none" onClick={() => changeDate(-1)}><ChevronLeftIcon className="w-5 h-5" /></Button>
             <span className="font-semibold text-center text-sm flex-grow px-2 text-gray-200 tracking-wide">{displayDate}</span>
-            <Button size="icon" className="h-8 w-8 flex-shrink-0 bg-transparent hover:bg-white/10 rounded-full shadow-none" onClick={() => changeDate(1)} disabled={isToday(selectedDate)}><ChevronRightIcon className="w-5 h-5" /></Button>
+            <Button size="icon" className="h-8 w-8 flex-shrink-0 bg-transparent hover:bg-white/10 rounded-full shadow-none" onClick={() => changeDate(1)} disabled={isToday}><ChevronRightIcon className="w-5 h-5" /></Button>
         </div>
     );
 }
 
 // --- View Components ---
 
-const DashboardView = ({ dailyGoal, logs, selectedDate, setSelectedDate, t, locale, macronutrientGoals }: { dailyGoal: number; logs: Record<string, DailyLog>; selectedDate: Date, setSelectedDate: (d: Date) => void, t: (key: string) => string, locale: string, macronutrientGoals: MacronutrientGoals }) => {
-    const currentLog = logs[getDateString(selectedDate)] || { food: [], exercise: [] };
+const DashboardView = ({ dailyGoal, logs, selectedDate, setSelectedDate, dateString, todayString, t, locale, macronutrientGoals, targetSource, plan }: { dailyGoal: number; logs: Record<string, DailyLog>; selectedDate: Date, setSelectedDate: (d: Date) => void, dateString: string, todayString: string, t: (key: string) => string, locale: string, macronutrientGoals: MacronutrientGoals, targetSource: TargetSource, plan: GoalPlan | null }) => {
+    const currentLog = logs[dateString] || { food: [], exercise: [] };
     const intake = currentLog.food.reduce((sum, item) => sum + item.calories, 0);
     const protein = currentLog.food.reduce((sum, item) => sum + item.protein, 0);
     const carbs = currentLog.food.reduce((sum, item) => sum + item.carbs, 0);
@@ -145,19 +211,17 @@ const DashboardView = ({ dailyGoal, logs, selectedDate, setSelectedDate, t, loca
 
     const last7DaysData = useMemo(() => {
         return Array.from({ length: 7 }).map((_, i) => {
-            const d = new Date();
-            d.setDate(d.getDate() - i);
-            const dateStr = getDateString(d);
+            const dateStr = addDaysToKey(todayString, -i);
             const log = logs[dateStr] || { food: [], exercise: [] };
             const dayIntake = log.food.reduce((s, item) => s + item.calories, 0);
             const dayBurned = log.exercise.reduce((s, item) => s + item.calories, 0);
             return {
-                name: d.toLocaleDateString(locale, { month: '2-digit', day: '2-digit' }),
+                name: formatDateKey(dateStr, locale, { month: '2-digit', day: '2-digit' }),
                 [t('dashboard.net_calories')]: dayIntake - dayBurned,
                 date: dateStr
             };
         }).reverse();
-    }, [logs, t, locale]);
+    }, [logs, todayString, t, locale]);
 
     const changeDate = (days: number) => {
         const newDate = new Date(selectedDate);
@@ -170,11 +234,11 @@ const DashboardView = ({ dailyGoal, logs, selectedDate, setSelectedDate, t, loca
              <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
                 <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500 text-center sm:text-left">{t('dashboard.title')}</h1>
                 <div className="self-center sm:self-auto">
-                    <DateNavigator selectedDate={selectedDate} changeDate={changeDate} t={t} locale={locale} />
+                    <DateNavigator dateString={dateString} isToday={dateString === todayString} changeDate={changeDate} t={t} locale={locale} />
                 </div>
             </div>
 
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-center">
                 <Card>
                     <CardHeader>
                         <CardDescription>{t('dashboard.intake')}</CardDescription>
@@ -193,12 +257,14 @@ const DashboardView = ({ dailyGoal, logs, selectedDate, setSelectedDate, t, loca
                         <CardTitle className="text-yellow-400 text-2xl">{net.toLocaleString()}</CardTitle>
                     </CardHeader>
                 </Card>
+                <FastingCard />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                 <Card className="md:col-span-2">
                     <CardHeader>
                         <CardTitle>{t('dashboard.goal_progress')}</CardTitle>
+                        {targetSource !== 'default' && <CardDescription>{t(`dashboard.target_source.${targetSource}`)}</CardDescription>}
                     </CardHeader>
                     <CardContent className="h-64">
                          <ResponsiveContainer width="100%" height="100%">
@@ -268,31 +334,80 @@ const DashboardView = ({ dailyGoal, logs, selectedDate, setSelectedDate, t, loca
                     </div>
                 </CardContent>
             </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('dashboard.nutrients.title')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <NutrientPanel log={currentLog} />
+                </CardContent>
+            </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('dashboard.hydration.title')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <HydrationTracker log={currentLog} />
+                </CardContent>
+            </Card>
+            {plan && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('dashboard.plan.title')}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <PlanProgress plan={plan} />
+                    </CardContent>
+                </Card>
+            )}
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('dashboard.body.title')}</CardTitle>
+                    <CardDescription>{t('dashboard.body.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <WeightTrend />
+                </CardContent>
+            </Card>
         </div>
     );
 };
 
-const presetExercises = [
-    { nameKey: 'log.exercise_presets.running', met: 9.8 },
-    { nameKey: 'log.exercise_presets.cycling', met: 8.0 },
-    { nameKey: 'log.exercise_presets.swimming', met: 8.3 },
-    { nameKey: 'log.exercise_presets.weight_lifting', met: 3.5 },
-    { nameKey: 'log.exercise_presets.walking', met: 4.3 },
-    { nameKey: 'log.exercise_presets.yoga', met: 2.5 },
-];
-
 import AddFoodForm from './components/food/AddFoodForm';
 import FoodLog from './components/food/FoodLog';
+import CustomFoodLibrary from './components/food/CustomFoodLibrary';
+import RecipeLibrary from './components/recipes/RecipeLibrary';
+import PlateReview from './components/food/PlateReview';
+import BarcodeProductDialog from './components/food/BarcodeProductDialog';
+import WeightTrend from './components/body/WeightTrend';
+import AdaptiveTdee from './components/body/AdaptiveTdee';
+import GoalPlanForm from './components/body/GoalPlanForm';
+import PlanProgress from './components/body/PlanProgress';
+import TargetSchedule from './components/targets/TargetSchedule';
+import ImportBackupDialog from './components/settings/ImportBackupDialog';
+import CsvTools from './components/settings/CsvTools';
+import DayTimeline from './components/timeline/DayTimeline';
+import FastingCard from './components/fasting/FastingCard';
+import HydrationTracker from './components/hydration/HydrationTracker';
+import ContainerSizes from './components/hydration/ContainerSizes';
+import NutrientPanel from './components/nutrients/NutrientPanel';
+import NutrientGoals from './components/nutrients/NutrientGoals';
+import ActionCard from './components/ai/ActionCard';
+import { Backup, BackupError, createBackup, parseBackup } from './utils/backup';
+import { calculateFormulaTdee } from './utils/tdee';
+import { CONTEXT_WINDOWS, buildHistoryContext, estimateTokens } from './utils/aiContext';
 import { AddExerciseForm } from './components/exercise/AddExerciseForm';
 import { ExerciseLog } from './components/exercise/ExerciseLog';
 
-const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise, appState, t, setSelectedDate, selectedDate, locale }: { currentLog: DailyLog; addFood: (f: Omit<FoodEntry, 'id'>) => void; addExercise: (e: Omit<ExerciseEntry, 'id'>) => void; removeFood: (id: string) => void; removeExercise: (id: string) => void; appState: AppState, t: (key: string) => string, setSelectedDate: (d: Date) => void, selectedDate: Date; locale: string; }) => {
+const LogView = ({ currentLog, addFood, addFoods, addExercise, removeFood, removeExercise, appState, t, setSelectedDate, selectedDate, dateString, todayString, locale }: { currentLog: DailyLog; addFood: (f: Omit<FoodEntry, 'id'>) => void; addFoods: (f: Omit<FoodEntry, 'id'>[]) => void; addExercise: (e: Omit<ExerciseEntry, 'id'>) => void; removeFood: (id: string) => void; removeExercise: (id: string) => void; appState: AppState, t: (key: string) => string, setSelectedDate: (d: Date) => void, selectedDate: Date; dateString: string; todayString: string; locale: string; }) => {
     const [activeTab, setActiveTab] = useState('food');
     const [isCameraOpen, setIsCameraOpen] = useState(false);
     const [isScanning, setIsScanning] = useState(false);
     const [scanError, setScanError] = useState('');
-    const [scannedFood, setScannedFood] = useState<{name?: string, calories?: string, protein?: string, carbs?: string, fat?: string}>({});
+    const [detectedItems, setDetectedItems] = useState<DetectedFoodItem[] | null>(null);
+    const [scannedBarcode, setScannedBarcode] = useState<string | null>(null);
     const fileUploadRef = useRef<HTMLInputElement>(null);
+    const nextScanSignal = useAbortSignal();
 
     const changeDate = (days: number) => {
         const newDate = new Date(selectedDate);
@@ -301,32 +416,27 @@ const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise,
     }
     
     const handleScan = async (base64Image: string) => {
-        if (!appState.apiKey) {
+        if (!isAiConfigured(appState)) {
             setScanError(t('settings.api_key_required_error'));
             setIsCameraOpen(false);
             return;
         }
         setIsScanning(true);
         setScanError('');
+        const signal = nextScanSignal();
         try {
-            const analysis: FoodAnalysis = await getAiFoodAnalysis(base64Image, appState.apiKey, appState.aiModel, appState.language);
+            const items = await getAiFoodAnalysis(base64Image, appState, appState.language, signal);
             
-            if (analysis.foodName === 'UNIDENTIFIED') {
-                setScannedFood({});
+            if (items.length === 0) {
+                setDetectedItems(null);
                 setScanError(t('camera.unidentified'));
             } else {
-                setScannedFood({
-                    name: analysis.foodName,
-                    calories: analysis.calories > 0 ? String(analysis.calories) : '',
-                    protein: analysis.protein > 0 ? String(analysis.protein) : '',
-                    carbs: analysis.carbs > 0 ? String(analysis.carbs) : '',
-                    fat: analysis.fat > 0 ? String(analysis.fat) : '',
-                });
+                setDetectedItems(items);
                 setIsCameraOpen(false);
             }
         } catch (error) {
-            console.error(error);
-            setScanError(t('camera.scan_error'));
+            if (signal.aborted) return;
+            setScanError(getAiErrorMessage(error, appState, t));
         } finally {
             setIsScanning(false);
         }
@@ -343,6 +453,16 @@ const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise,
             reader.readAsDataURL(file);
         }
      };
+
+    const handleBarcode = useCallback((code: string) => {
+        setIsCameraOpen(false);
+        setScannedBarcode(code);
+    }, []);
+
+    const handleConfirmItems = (foods: Omit<FoodEntry, 'id'>[]) => {
+        addFoods(foods);
+        setDetectedItems(null);
+    };
     
     
     return (
@@ -350,7 +470,7 @@ const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise,
             <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
                 <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-blue-500 text-center sm:text-left">{t('log.title')}</h1>
                 <div className="self-center sm:self-auto">
-                    <DateNavigator selectedDate={selectedDate} changeDate={changeDate} t={t} locale={locale} />
+                    <DateNavigator dateString={dateString} isToday={dateString === todayString} changeDate={changeDate} t={t} locale={locale} />
                 </div>
             </div>
 
@@ -365,7 +485,7 @@ const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise,
                         <CardTitle>{activeTab === 'food' ? t('log.add_food') : t('log.add_exercise')}</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        {activeTab === 'food' ? <AddFoodForm onAddFood={addFood} onUpload={() => fileUploadRef.current?.click()} scannedFood={scannedFood} /> : <AddExerciseForm />}
+                        {activeTab === 'food' ? <AddFoodForm onAddFood={addFood} onUpload={() => fileUploadRef.current?.click()} /> : <AddExerciseForm />}
                         {scanError && <p className="text-red-400 text-center mt-2">{scanError}</p>}
                         <input type="file" ref={fileUploadRef} onChange={handleFileSelect} accept="image/*" className="hidden" />
                     </CardContent>
@@ -373,7 +493,7 @@ const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise,
 
                 <Card>
                     <CardHeader>
-                        <CardTitle>{isToday(selectedDate) ? t('log.todays_log') : selectedDate.toLocaleDateString(locale, { month: 'short', day: 'numeric' }) + t('log.date_log')} - {activeTab === 'food' ? t('log.food') : t('log.exercise')}</CardTitle>
+                        <CardTitle>{dateString === todayString ? t('log.todays_log') : formatDateKey(dateString, locale, { month: 'short', day: 'numeric' }) + t('log.date_log')} - {activeTab === 'food' ? t('log.food') : t('log.exercise')}</CardTitle>
                     </CardHeader>
                     <CardContent className="max-h-[calc(100vh-28rem)] overflow-y-auto p-4">
                         {activeTab === 'food' ? (
@@ -383,32 +503,85 @@ const LogView = ({ currentLog, addFood, addExercise, removeFood, removeExercise,
                         )}
                     </CardContent>
                 </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('log.timeline.title')}</CardTitle>
+                        <CardDescription>{t('log.timeline.desc')}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <DayTimeline log={currentLog} />
+                    </CardContent>
+                </Card>
+
+                {activeTab === 'food' && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>{t('log.my_foods.title')}</CardTitle>
+                            <CardDescription>{t('log.my_foods.desc')}</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <CustomFoodLibrary />
+                        </CardContent>
+                    </Card>
+                )}
+                {activeTab === 'food' && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>{t('log.recipes.title')}</CardTitle>
+                            <CardDescription>{t('log.recipes.desc')}</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <RecipeLibrary />
+                        </CardContent>
+                    </Card>
+                )}
             </div>
             <Dialog open={isCameraOpen} onOpenChange={setIsCameraOpen}>
                 <DialogContent onClose={() => setIsCameraOpen(false)}>
                     <DialogHeader>
                         <DialogTitle>{t('camera.modal_title')}</DialogTitle>
                     </DialogHeader>
-                    {isCameraOpen && <CameraView onClose={() => setIsCameraOpen(false)} onScan={handleScan} isScanning={isScanning} t={t} />}
+                    {isCameraOpen && <CameraView onClose={() => setIsCameraOpen(false)} onScan={handleScan} onBarcode={handleBarcode} isScanning={isScanning} t={t} />}
                     {scanError && <p className="text-red-400 text-center mt-2">{scanError}</p>}
                 </DialogContent>
             </Dialog>
+            <Dialog open={detectedItems !== null} onOpenChange={(open) => !open && setDetectedItems(null)}>
+                <DialogContent onClose={() => setDetectedItems(null)}>
+                    <DialogHeader>
+                        <DialogTitle>{t('camera.review.title')}</DialogTitle>
+                    </DialogHeader>
+                    {detectedItems && <PlateReview items={detectedItems} onConfirm={handleConfirmItems} onCancel={() => setDetectedItems(null)} />}
+                </DialogContent>
+            </Dialog>
+            <BarcodeProductDialog code={scannedBarcode} onAddFood={addFood} onClose={() => setScannedBarcode(null)} />
         </div>
     );
 };
 
-const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, currentLog, onNav, t }: { appState: AppState, setChatHistory: (history: ChatMessage[]) => void, clearChatHistory: () => void, currentLog: DailyLog; onNav: (view: ActiveView) => void; t: (key: string) => string; }) => {
+const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, setAiContextDays, currentLog, dailyGoal, dateString, onNav, t }: { appState: AppState, setChatHistory: (history: ChatMessage[]) => void, clearChatHistory: () => void, setAiContextDays: (days: number) => void, currentLog: DailyLog; dailyGoal: number; dateString: string; onNav: (view: ActiveView) => void; t: (key: string, options?: Record<string, string | number>) => string; }) => {
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [streamingText, setStreamingText] = useState('');
     const [isAlertOpen, setIsAlertOpen] = useState(false);
+    const [isContextOpen, setIsContextOpen] = useState(false);
+
+    const systemInstruction = useMemo(() => {
+        const history = buildHistoryContext(appState, dateString, appState.aiContextDays, appState.language);
+        return getSystemInstruction(currentLog, dailyGoal, appState.userProfile, appState.language, history);
+    }, [appState, dateString, currentLog, dailyGoal]);
     const endOfMessagesRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         endOfMessagesRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, [appState.chatHistory]);
+    }, [appState.chatHistory, streamingText]);
+
+    // Leaving the view stops the request; the partial reply is still committed
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const handleSend = async () => {
-        if (input.trim() === '' || isLoading || !appState.apiKey) return;
+        if (input.trim() === '' || isLoading || !isAiConfigured(appState)) return;
         
         const userMessage: ChatMessage = { role: 'user', text: input };
         const newHistory = [...appState.chatHistory, userMessage];
@@ -417,15 +590,37 @@ const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, currentLo
         const currentInput = input;
         setInput('');
         setIsLoading(true);
+        setStreamingText('');
 
-        const aiResponse = await getAiAdvice(currentInput, appState.chatHistory, currentLog, appState.dailyGoal, appState.userProfile, appState.apiKey, appState.aiModel, appState.language);
-        const modelMessage: ChatMessage = { role: 'model', text: aiResponse };
-        
-        setChatHistory([...newHistory, modelMessage]);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const aiResponse = await streamAiAdvice(currentInput, appState.chatHistory, currentLog, dateString, systemInstruction, appState, appState.language, setStreamingText, controller.signal);
+        abortRef.current = null;
+
+        // A reply stopped before anything arrived leaves only the question in the history.
+        // A failure keeps whatever already streamed in and adds the reason after it.
+        const text = aiResponse.error
+            ? [aiResponse.text, getAiErrorMessage(aiResponse.error, appState, t)].filter(Boolean).join('\n\n')
+            : aiResponse.text;
+        if (text || aiResponse.actions.length > 0) {
+            const modelMessage: ChatMessage = { role: 'model', text, actions: aiResponse.actions.length > 0 ? aiResponse.actions : undefined };
+            setChatHistory([...newHistory, modelMessage]);
+        }
+        setStreamingText('');
         setIsLoading(false);
     };
+
+    const handleStop = () => {
+        abortRef.current?.abort();
+    };
+
+    const handleActionChange = (messageIndex: number, action: AiAction) => {
+        setChatHistory(appState.chatHistory.map((msg, index) => index === messageIndex
+            ? { ...msg, actions: msg.actions?.map(a => a.id === action.id ? action : a) }
+            : msg));
+    };
     
-    if (!appState.apiKey) {
+    if (!isAiConfigured(appState)) {
         return (
             <div className="p-4 md:p-6 animate-fade-in text-center flex flex-col items-center justify-center h-full">
                 <Card className="max-w-md">
@@ -445,6 +640,9 @@ const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, currentLo
         <div className="flex flex-col h-full p-4 animate-fade-in">
              <div className="flex justify-between items-center mb-4">
                 <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-500">{t('ai.title')}</h1>
+                <button type="button" onClick={() => setIsContextOpen(true)} className="ml-auto mr-2 text-xs text-gray-400 hover:text-white underline">
+                    {t('ai.context.open', { days: appState.aiContextDays })}
+                </button>
                 {appState.chatHistory.length > 0 && (
                     <Button
                         onClick={() => setIsAlertOpen(true)}
@@ -478,6 +676,26 @@ const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, currentLo
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+            <Dialog open={isContextOpen} onOpenChange={setIsContextOpen}>
+                <DialogContent onClose={() => setIsContextOpen(false)}>
+                    <DialogHeader>
+                        <DialogTitle>{t('ai.context.title')}</DialogTitle>
+                        <DialogDescription>{t('ai.context.desc')}</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-3">
+                        <div>
+                            <Label htmlFor="aiContextDays">{t('ai.context.window')}</Label>
+                            <Select id="aiContextDays" value={appState.aiContextDays} onChange={(e) => setAiContextDays(Number(e.target.value))}>
+                                {CONTEXT_WINDOWS.map(days => (
+                                    <option key={days} value={days}>{t('ai.context.days', { days })}</option>
+                                ))}
+                            </Select>
+                        </div>
+                        <pre className="max-h-[50vh] overflow-y-auto whitespace-pre-wrap text-xs text-gray-300 bg-gray-800/50 rounded-xl p-3">{systemInstruction}</pre>
+                        <p className="text-xs text-gray-500">{t('ai.context.tokens', { count: estimateTokens(systemInstruction) })}</p>
+                    </div>
+                </DialogContent>
+            </Dialog>
             <div className="flex-grow overflow-y-auto mb-4 space-y-4 pr-2">
                 {appState.chatHistory.length === 0 && (
                     <div className="text-center text-gray-500 pt-16">
@@ -487,13 +705,27 @@ const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, currentLo
                     </div>
                 )}
                 {appState.chatHistory.map((msg, index) => (
-                    <div key={index} className={`flex items-end gap-2 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`max-w-xs lg:max-w-2xl px-4 py-3 rounded-2xl shadow-md ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-xl' : 'bg-gray-700 text-gray-200 rounded-bl-xl'}`}>
-                           <p className="whitespace-pre-wrap">{msg.text}</p>
-                        </div>
+                    <div key={index} className="space-y-2">
+                        {msg.text && (
+                            <div className={`flex items-end gap-2 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                                <div className={`max-w-xs lg:max-w-2xl px-4 py-3 rounded-2xl shadow-md ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-xl' : 'bg-gray-700 text-gray-200 rounded-bl-xl'}`}>
+                                   <p className="whitespace-pre-wrap">{msg.text}</p>
+                                </div>
+                            </div>
+                        )}
+                        {msg.actions?.map(action => (
+                            <ActionCard key={action.id} action={action} onChange={(updated) => handleActionChange(index, updated)} />
+                        ))}
                     </div>
                 ))}
-                {isLoading && (
+                {isLoading && streamingText && (
+                    <div className="flex items-end gap-2 justify-start">
+                        <div className="max-w-xs lg:max-w-2xl px-4 py-3 rounded-2xl shadow-md bg-gray-700 text-gray-200 rounded-bl-xl">
+                           <p className="whitespace-pre-wrap">{streamingText}<span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-blue-400 animate-pulse" /></p>
+                        </div>
+                    </div>
+                )}
+                {isLoading && !streamingText && (
                     <div className="flex justify-start">
                         <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-xl bg-gray-700 text-gray-200 flex items-center">
                             <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse mr-2"></div>
@@ -514,25 +746,65 @@ const AiAssistantView = ({ appState, setChatHistory, clearChatHistory, currentLo
                     className="flex-1"
                     disabled={isLoading}
                 />
-                <Button onClick={handleSend} disabled={isLoading || input.trim() === ''} size="icon">
-                    <SendIcon className="w-5 h-5" />
-                </Button>
+                {isLoading ? (
+                    <Button onClick={handleStop} size="icon" title={t('ai.stop')} className="bg-red-600 hover:bg-red-700">
+                        <StopIcon className="w-5 h-5" />
+                    </Button>
+                ) : (
+                    <Button onClick={handleSend} disabled={input.trim() === ''} size="icon">
+                        <SendIcon className="w-5 h-5" />
+                    </Button>
+                )}
             </div>
         </div>
     );
 };
 
-const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUserProfile, setDailyGoal, importData, checkForUpdates, t, setMacronutrientGoals }: { appState: AppState; setApiKey: (key: string) => void; setAiModel: (model: string) => void; setLanguage: (lang: 'en' | 'zh-TW') => void; updateUserProfile: (profile: Partial<UserProfile>) => void; setDailyGoal: (goal: number) => void; importData: (state: AppState) => boolean; checkForUpdates: () => void; t: (key: string) => string; setMacronutrientGoals: (goals: MacronutrientGoals) => void; }) => {
+const SettingsView = ({ appState, setApiKey, setAiModel, setAiProvider, setAiBaseUrl, setLanguage, setDayStartHour, updateUserProfile, saveMeasurement, setDailyGoal, checkForUpdates, t, setMacronutrientGoals }: { appState: AppState; setApiKey: (key: string) => void; setAiModel: (model: string) => void; setAiProvider: (provider: AiProviderKind) => void; setAiBaseUrl: (url: string) => void; setLanguage: (lang: 'en' | 'zh-TW') => void; setDayStartHour: (hour: number) => void; updateUserProfile: (profile: Partial<UserProfile>) => void; saveMeasurement: (date: string, measurement: BodyMeasurement) => void; setDailyGoal: (goal: number) => void; checkForUpdates: () => void; t: (key: string) => string; setMacronutrientGoals: (goals: MacronutrientGoals) => void; }) => {
     const [localState, setLocalState] = useState({
+        aiProvider: appState.aiProvider,
+        aiBaseUrl: appState.aiBaseUrl,
         apiKey: appState.apiKey || '',
         aiModel: appState.aiModel,
         language: appState.language,
+        dayStartHour: appState.dayStartHour,
         userProfile: appState.userProfile,
         dailyGoal: appState.dailyGoal,
         macronutrientGoals: appState.macronutrientGoals
     });
     const [saveMessage, setSaveMessage] = useState('');
     const importFileRef = useRef<HTMLInputElement>(null);
+    const [includeApiKey, setIncludeApiKey] = useState(false);
+    const [pendingBackup, setPendingBackup] = useState<Backup | null>(null);
+    const [loadedModels, setLoadedModels] = useState<string[]>([]);
+    const [modelsStatus, setModelsStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+    const providerInfo = AI_PROVIDERS[localState.aiProvider];
+
+    const handleProviderChange = (aiProvider: AiProviderKind) => {
+        const info = AI_PROVIDERS[aiProvider];
+        setLocalState(p => ({
+            ...p,
+            aiProvider,
+            aiBaseUrl: info.defaultBaseUrl,
+            // Keep the model when the new provider offers it too, e.g. switching between direct and proxied Gemini
+            aiModel: info.models.some(model => model.id === p.aiModel) ? p.aiModel : info.models[0].id,
+        }));
+        setLoadedModels([]);
+        setModelsStatus('idle');
+    };
+
+    const handleLoadModels = async () => {
+        const provider = createAiProvider({ ...localState, apiKey: localState.apiKey || null });
+        if (!provider.listModels) return;
+        setModelsStatus('loading');
+        try {
+            setLoadedModels(await provider.listModels());
+            setModelsStatus('idle');
+        } catch (error) {
+            console.error("Error loading models:", error);
+            setModelsStatus('error');
+        }
+    };
 
     const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
@@ -543,10 +815,19 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
     };
     
     const handleSave = () => {
+        setAiProvider(localState.aiProvider);
+        setAiBaseUrl(localState.aiBaseUrl.trim());
         setApiKey(localState.apiKey);
-        setAiModel(localState.aiModel);
+        setAiModel(localState.aiModel.trim());
         setLanguage(localState.language);
+        setDayStartHour(localState.dayStartHour);
         updateUserProfile(localState.userProfile);
+        // A changed weight is recorded as today's weigh-in so the history and trend stay complete
+        const { weight } = localState.userProfile;
+        if (weight && weight !== appState.userProfile.weight) {
+            const today = toDateKey(new Date(), localState.dayStartHour);
+            saveMeasurement(today, { ...appState.measurements[today], weight });
+        }
         setDailyGoal(localState.dailyGoal);
         setMacronutrientGoals(localState.macronutrientGoals);
         setSaveMessage(t('settings.saved'));
@@ -554,31 +835,30 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
     };
 
     const handleCalculateTDEE = () => {
-        const { age, sex, weight, height, activityLevel } = localState.userProfile;
-        if (!age || !sex || !weight || !height) {
+        const tdee = calculateFormulaTdee(localState.userProfile);
+        if (tdee === null) {
             alert(t('settings.user_profile.validation_error'));
             return;
         }
-
-        let bmr = 0;
-        if (sex === 'male') {
-            bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-        } else {
-            bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-        }
-        
-        const activityMultipliers = {
-            sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, 'very_active': 1.9
-        };
-        const tdee = Math.round(bmr * activityMultipliers[activityLevel]);
         setLocalState(prev => ({ ...prev, dailyGoal: tdee }));
         alert(`${t('settings.user_profile.tdee_result_1')} ${tdee} ${t('dashboard.kcal')}. ${t('settings.user_profile.tdee_result_2')}`);
     };
 
+    const handleApplyAdaptiveTdee = (tdee: number) => {
+        setLocalState(prev => ({ ...prev, dailyGoal: tdee }));
+        setDailyGoal(tdee);
+    };
+
+    const handleApplyPlan = (dailyGoal: number, macronutrientGoals: MacronutrientGoals) => {
+        setLocalState(prev => ({ ...prev, dailyGoal, macronutrientGoals }));
+        setDailyGoal(dailyGoal);
+        setMacronutrientGoals(macronutrientGoals);
+    };
+
     const handleExport = () => {
-        const dataStr = JSON.stringify(appState, null, 2);
+        const dataStr = JSON.stringify(createBackup(appState, includeApiKey), null, 2);
         const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-        const exportFileDefaultName = `calorie-tracker-backup-${new Date().toISOString().split('T')[0]}.json`;
+        const exportFileDefaultName = `calorie-tracker-backup-${toDateKey(new Date())}.json`;
         const linkElement = document.createElement('a');
         linkElement.setAttribute('href', dataUri);
         linkElement.setAttribute('download', exportFileDefaultName);
@@ -588,24 +868,18 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
     const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
-            if (window.confirm(t('settings.data_management.import_confirm'))) {
-                const reader = new FileReader();
-                reader.onload = (event) => {
-                    try {
-                        const newState = JSON.parse(event.target?.result as string);
-                        if (importData(newState)) {
-                            alert(t('settings.data_management.import_success'));
-                            window.location.reload();
-                        } else {
-                            throw new Error('Invalid data format');
-                        }
-                    } catch (err) {
-                        alert(t('settings.data_management.import_error'));
-                    }
-                };
-                reader.readAsText(file);
-            }
+            const reader = new FileReader();
+            reader.onload = (event) => {
+                try {
+                    setPendingBackup(parseBackup(JSON.parse(event.target?.result as string)));
+                } catch (err) {
+                    console.error("Invalid backup", err instanceof BackupError ? err.errors : err);
+                    alert(t('settings.data_management.import_error'));
+                }
+            };
+            reader.readAsText(file);
         }
+        e.target.value = '';
     };
 
     return (
@@ -634,6 +908,7 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
                         <div>
                             <Label htmlFor="weight">{t('settings.user_profile.weight')}</Label>
                             <Input id="weight" name="weight" type="number" value={localState.userProfile.weight || ''} onChange={handleProfileChange} />
+                            <p className="text-xs text-gray-500 mt-1">{t('settings.user_profile.weight_hint')}</p>
                         </div>
                         <div>
                             <Label htmlFor="height">{t('settings.user_profile.height')}</Label>
@@ -655,6 +930,7 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
                         </div>
                     </div>
                      <Button onClick={handleCalculateTDEE} className="bg-purple-600 hover:bg-purple-700">{t('settings.user_profile.calculate_goal')}</Button>
+                     <AdaptiveTdee formulaTdee={calculateFormulaTdee(localState.userProfile)} dailyGoal={localState.dailyGoal} onApply={handleApplyAdaptiveTdee} />
                 </CardContent>
             </Card>
 
@@ -681,23 +957,95 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
                 </CardContent>
             </Card>
 
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('settings.plan.title')}</CardTitle>
+                    <CardDescription>{t('settings.plan.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <GoalPlanForm onApply={handleApplyPlan} />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('settings.targets.title')}</CardTitle>
+                    <CardDescription>{t('settings.targets.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <TargetSchedule />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('settings.nutrients.title')}</CardTitle>
+                    <CardDescription>{t('settings.nutrients.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <NutrientGoals />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('settings.hydration.title')}</CardTitle>
+                    <CardDescription>{t('settings.hydration.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ContainerSizes />
+                </CardContent>
+            </Card>
+
             <Card>
                 <CardHeader>
                     <CardTitle>{t('settings.ai_settings')}</CardTitle>
                     <CardDescription>{t('settings.ai_settings_desc')}</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                    <div>
+                        <Label htmlFor="ai-provider">{t('settings.ai_provider.label')}</Label>
+                        <Select id="ai-provider" value={localState.aiProvider} onChange={(e) => handleProviderChange(e.target.value as AiProviderKind)}>
+                            {(Object.keys(AI_PROVIDERS) as AiProviderKind[]).map(kind => (
+                                <option key={kind} value={kind}>{t(`settings.ai_provider.${kind}`)}</option>
+                            ))}
+                        </Select>
+                    </div>
+                    {providerInfo.defaultBaseUrl && (
+                        <div>
+                            <Label htmlFor="ai-base-url">{t('settings.ai_provider.base_url')}</Label>
+                            <Input id="ai-base-url" type="url" value={localState.aiBaseUrl} onChange={(e) => setLocalState(p => ({...p, aiBaseUrl: e.target.value}))} placeholder={providerInfo.defaultBaseUrl} />
+                        </div>
+                    )}
                     <div>
                         <Label htmlFor="api-key">{t('settings.api_key')}</Label>
                         <Input id="api-key" type="password" value={localState.apiKey} onChange={(e) => setLocalState(p => ({...p, apiKey: e.target.value}))} placeholder={t('settings.api_key_placeholder')} />
+                        {!providerInfo.requiresApiKey && <p className="text-xs text-gray-500 mt-1">{t('settings.ai_provider.key_optional')}</p>}
                     </div>
                     <div>
                         <Label htmlFor="ai-model">{t('settings.ai_model')}</Label>
-                        <Select id="ai-model" value={localState.aiModel} onChange={(e) => setLocalState(p => ({...p, aiModel: e.target.value}))}>
-                            <option value="gemini-2.5-flash-lite">{t('settings.model.flash-lite')}</option>
-                            <option value="gemini-2.0-flash">{t('settings.model.flash')}</option>
-                            <option value="gemini-2.5-flash">{t('settings.model.25flash')}</option>
-                        </Select>
+                        {localState.aiProvider === 'openai' ? (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <Input id="ai-model" type="text" list="ai-model-options" value={localState.aiModel} onChange={(e) => setLocalState(p => ({...p, aiModel: e.target.value}))} className="flex-1" />
+                                    <Button type="button" onClick={handleLoadModels} disabled={modelsStatus === 'loading' || !localState.aiBaseUrl.trim()} className="flex-shrink-0 bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                                        {modelsStatus === 'loading' ? t('settings.ai_provider.loading_models') : t('settings.ai_provider.load_models')}
+                                    </Button>
+                                </div>
+                                <datalist id="ai-model-options">
+                                    {(loadedModels.length > 0 ? loadedModels : providerInfo.models.map(model => model.id)).map(id => (
+                                        <option key={id} value={id} />
+                                    ))}
+                                </datalist>
+                                {modelsStatus === 'error' && <p className="text-xs text-red-400 mt-1">{t('settings.ai_provider.load_models_error')}</p>}
+                            </>
+                        ) : (
+                            <Select id="ai-model" value={localState.aiModel} onChange={(e) => setLocalState(p => ({...p, aiModel: e.target.value}))}>
+                                {providerInfo.models.map(model => (
+                                    <option key={model.id} value={model.id}>{model.labelKey ? t(model.labelKey) : model.id}</option>
+                                ))}
+                            </Select>
+                        )}
                     </div>
                     <div>
                         <Label htmlFor="language">{t('settings.language.label')}</Label>
@@ -706,6 +1054,15 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
                             <option value="zh-TW">{t('settings.language.zh-TW')}</option>
                         </Select>
                     </div>
+                    <div>
+                        <Label htmlFor="day-start-hour">{t('settings.day_start.label')}</Label>
+                        <Select id="day-start-hour" value={localState.dayStartHour} onChange={(e) => setLocalState(p => ({...p, dayStartHour: Number(e.target.value)}))}>
+                            {Array.from({ length: 24 }).map((_, hour) => (
+                                <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+                            ))}
+                        </Select>
+                        <p className="text-xs text-gray-500 mt-1">{t('settings.day_start.desc')}</p>
+                    </div>
                 </CardContent>
             </Card>
             
@@ -716,8 +1073,23 @@ const SettingsView = ({ appState, setApiKey, setAiModel, setLanguage, updateUser
                 </CardHeader>
                 <CardContent className="flex flex-col gap-4">
                     <Button onClick={handleExport} className="w-full sm:w-auto"><DownloadIcon className="w-5 h-5 mr-2"/>{t('settings.data_management.export')}</Button>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={includeApiKey} onChange={(e) => setIncludeApiKey(e.target.checked)} />
+                        {t('settings.data_management.include_api_key')}
+                    </label>
                     <Button onClick={() => importFileRef.current?.click()} className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700"><UploadIcon className="w-5 h-5 mr-2"/>{t('settings.data_management.import')}</Button>
                     <input type="file" ref={importFileRef} onChange={handleImport} accept=".json" className="hidden" />
+                    <ImportBackupDialog backup={pendingBackup} onClose={() => setPendingBackup(null)} />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('settings.csv.title')}</CardTitle>
+                    <CardDescription>{t('settings.csv.desc')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <CsvTools />
                 </CardContent>
             </Card>
 
@@ -740,10 +1112,11 @@ const NavButton = ({ Icon, label, isActive, onClick }: { Icon: React.ElementType
 
 
 export default function App() {
-  const { appState, getLogForDate, addFood, addExercise, removeFood, removeExercise, setDailyGoal, setApiKey, setAiModel, isInitialized, selectedDate, setSelectedDate, setLanguage, updateUserProfile, setChatHistory, clearChatHistory, importData, checkForUpdates: checkSwUpdate, setMacronutrientGoals } = useAppState();
+  const { appState, getLogForDate, addFood, addFoods, addExercise, removeFood, removeExercise, setDailyGoal, setApiKey, setAiModel, setAiProvider, setAiBaseUrl, isInitialized, selectedDate, setSelectedDate, dateString, todayString, setLanguage, setDayStartHour, updateUserProfile, saveMeasurement, setChatHistory, clearChatHistory, setAiContextDays, checkForUpdates: checkSwUpdate, setMacronutrientGoals, storageError } = useAppState();
   const [activeView, setActiveView] = useState<ActiveView>('dashboard');
   const { t, isLoaded, currentLanguage, locale } = useTranslation(appState.language);
-  const currentLog = useMemo(() => getLogForDate(getDateString(selectedDate)), [getLogForDate, selectedDate]);
+  const currentLog = useMemo(() => getLogForDate(dateString), [getLogForDate, dateString]);
+  const selectedTarget = useMemo(() => resolveTargets(appState, dateString), [appState, dateString]);
   const [updateAvailable, setUpdateAvailable] = useState(false);
   const waitingWorker = useRef<ServiceWorker | null>(null);
 
@@ -813,15 +1186,15 @@ export default function App() {
   const renderView = () => {
     switch (activeView) {
       case 'dashboard':
-        return <DashboardView dailyGoal={appState.dailyGoal} logs={appState.logs} selectedDate={selectedDate} setSelectedDate={setSelectedDate} t={t} locale={locale} macronutrientGoals={appState.macronutrientGoals} />;
+        return <DashboardView dailyGoal={selectedTarget.dailyGoal} logs={appState.logs} selectedDate={selectedDate} setSelectedDate={setSelectedDate} dateString={dateString} todayString={todayString} t={t} locale={locale} macronutrientGoals={selectedTarget.macronutrientGoals} targetSource={selectedTarget.source} plan={appState.plan} />;
       case 'log':
-        return <LogView currentLog={currentLog} addFood={addFood} addExercise={addExercise} removeFood={removeFood} removeExercise={removeExercise} appState={appState} t={t} selectedDate={selectedDate} setSelectedDate={setSelectedDate} locale={locale} />;
+        return <LogView currentLog={currentLog} addFood={addFood} addFoods={addFoods} addExercise={addExercise} removeFood={removeFood} removeExercise={removeExercise} appState={appState} t={t} selectedDate={selectedDate} setSelectedDate={setSelectedDate} dateString={dateString} todayString={todayString} locale={locale} />;
       case 'ai':
-        return <AiAssistantView appState={appState} setChatHistory={setChatHistory} clearChatHistory={clearChatHistory} currentLog={currentLog} onNav={setActiveView} t={t} />;
+        return <AiAssistantView appState={appState} setChatHistory={setChatHistory} clearChatHistory={clearChatHistory} setAiContextDays={setAiContextDays} currentLog={currentLog} dailyGoal={selectedTarget.dailyGoal} dateString={dateString} onNav={setActiveView} t={t} />;
       case 'settings':
-        return <SettingsView appState={appState} setApiKey={setApiKey} setAiModel={setAiModel} setLanguage={setLanguage} updateUserProfile={updateUserProfile} setDailyGoal={setDailyGoal} importData={importData} checkForUpdates={checkForUpdates} t={t} setMacronutrientGoals={setMacronutrientGoals} />;
+        return <SettingsView appState={appState} setApiKey={setApiKey} setAiModel={setAiModel} setAiProvider={setAiProvider} setAiBaseUrl={setAiBaseUrl} setLanguage={setLanguage} setDayStartHour={setDayStartHour} updateUserProfile={updateUserProfile} saveMeasurement={saveMeasurement} setDailyGoal={setDailyGoal} checkForUpdates={checkForUpdates} t={t} setMacronutrientGoals={setMacronutrientGoals} />;
       default:
-        return <DashboardView dailyGoal={appState.dailyGoal} logs={appState.logs} selectedDate={selectedDate} setSelectedDate={setSelectedDate} t={t} locale={locale} macronutrientGoals={appState.macronutrientGoals} />;
+        return <DashboardView dailyGoal={selectedTarget.dailyGoal} logs={appState.logs} selectedDate={selectedDate} setSelectedDate={setSelectedDate} dateString={dateString} todayString={todayString} t={t} locale={locale} macronutrientGoals={selectedTarget.macronutrientGoals} targetSource={selectedTarget.source} plan={appState.plan} />;
     }
   };
 
@@ -840,6 +1213,11 @@ export default function App() {
                   <Button onClick={handleUpdate} className="bg-white text-blue-600 hover:bg-gray-200">{t('update.update_now')}</Button>
               </div>
           )}
+          {storageError && (
+              <div className="fixed top-4 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-lg bg-red-600 text-white p-4 rounded-lg shadow-lg z-50 animate-fade-in">
+                  <p>{t(`storage.${storageError === 'unavailable' ? 'write' : storageError}_error`)}</p>
+              </div>
+          )}
           {/* Desktop Sidebar */}
           <aside className="hidden md:flex flex-col w-64 bg-black/20 p-4 border-r border-white/10">
               <header className="text-center mb-10">
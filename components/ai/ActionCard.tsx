@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { AiAction, FoodEntry } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { formatDateKey } from '../../utils/date';
+import { Button, Input, Label, Select } from '../ui';
+
+interface ActionCardProps {
+  action: AiAction;
+  onChange: (action: AiAction) => void;
+}
+
+const ActionCard: React.FC<ActionCardProps> = ({ action, onChange }) => {
+  const { appState, addFood, addExercise, removeFood, saveMeasurement, dateString } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const [draft, setDraft] = useState<AiAction | null>(null);
+
+  // Applies the proposal to the day it was made for, not whichever day is selected now
+  const handleAccept = () => {
+    const date = action.date || dateString;
+    if (action.kind === 'add_food' && action.food) {
+      addFood(action.food, date);
+    } else if (action.kind === 'add_exercise' && action.exercise) {
+      addExercise(action.exercise, date);
+    } else if (action.kind === 'remove_food' && action.foodId) {
+      if (!appState.logs[date]?.food.some(f => f.id === action.foodId)) {
+        onChange({ ...action, status: 'failed' });
+        return;
+      }
+      removeFood(action.foodId, date);
+    } else if (action.kind === 'log_weight' && action.weight) {
+      saveMeasurement(date, { ...appState.measurements[date], weight: action.weight });
+    } else {
+      onChange({ ...action, status: 'failed' });
+      return;
+    }
+    onChange({ ...action, status: 'accepted' });
+  };
+
+  const handleSaveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onChange(draft);
+    setDraft(null);
+  };
+
+  const setFoodField = (key: keyof Omit<FoodEntry, 'id'>, value: string | number) => {
+    setDraft(prev => prev?.food ? { ...prev, food: { ...prev.food, [key]: value } } : prev);
+  };
+
+  const setExerciseField = (key: 'name' | 'duration' | 'calories', value: string | number) => {
+    setDraft(prev => prev?.exercise ? { ...prev, exercise: { ...prev.exercise, [key]: value } } : prev);
+  };
+
+  const summary = () => {
+    if (action.kind === 'add_exercise' && action.exercise) {
+      return (
+        <>
+          <p className="font-bold text-white capitalize">{action.exercise.name}</p>
+          <p className="text-xs text-gray-400">{action.exercise.duration} {t('log.duration_unit')} · {action.exercise.calories} {t('dashboard.kcal')}</p>
+        </>
+      );
+    }
+    if (action.kind === 'log_weight') {
+      return <p className="font-bold text-white">{action.weight} kg</p>;
+    }
+    if (!action.food) return null;
+    return (
+      <>
+        <p className={`font-bold capitalize ${action.kind === 'remove_food' ? 'text-red-300 line-through' : 'text-white'}`}>{action.food.name}</p>
+        <p className="text-xs text-gray-400">
+          {t(`log.meal.${action.food.meal}`)} · {action.food.calories} {t('dashboard.kcal')} · P: {action.food.protein}g · C: {action.food.carbs}g · F: {action.food.fat}g
+        </p>
+      </>
+    );
+  };
+
+  const editForm = () => {
+    if (!draft) return null;
+    if (draft.kind === 'add_food' && draft.food) {
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="col-span-2">
+            <Label htmlFor={`${draft.id}-name`}>{t('log.food_name')}</Label>
+            <Input id={`${draft.id}-name`} type="text" value={draft.food.name} onChange={(e) => setFoodField('name', e.target.value)} required />
+          </div>
+          <div>
+            <Label htmlFor={`${draft.id}-calories`}>{t('log.calories')}</Label>
+            <Input id={`${draft.id}-calories`} type="number" value={draft.food.calories} onChange={(e) => setFoodField('calories', Number(e.target.value) || 0)} />
+          </div>
+          <div>
+            <Label htmlFor={`${draft.id}-meal`}>{t('log.meal.label')}</Label>
+            <Select id={`${draft.id}-meal`} value={draft.food.meal} onChange={(e) => setFoodField('meal', e.target.value)}>
+              <option value="breakfast">{t('log.meal.breakfast')}</option>
+              <option value="lunch">{t('log.meal.lunch')}</option>
+              <option value="dinner">{t('log.meal.dinner')}</option>
+              <option value="snack">{t('log.meal.snack')}</option>
+            </Select>
+          </div>
+          {(['protein', 'carbs', 'fat'] as const).map(key => (
+            <div key={key}>
+              <Label htmlFor={`${draft.id}-${key}`}>{`${t(`log.${key}`)} (g)`}</Label>
+              <Input id={`${draft.id}-${key}`} type="number" value={draft.food?.[key]} onChange={(e) => setFoodField(key, Number(e.target.value) || 0)} />
+            </div>
+          ))}
+        </div>
+      );
+    }
+    if (draft.kind === 'add_exercise' && draft.exercise) {
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="col-span-2">
+            <Label htmlFor={`${draft.id}-name`}>{t('log.exercise_name')}</Label>
+            <Input id={`${draft.id}-name`} type="text" value={draft.exercise.name} onChange={(e) => setExerciseField('name', e.target.value)} required />
+          </div>
+          <div>
+            <Label htmlFor={`${draft.id}-duration`}>{t('log.duration_mins')}</Label>
+            <Input id={`${draft.id}-duration`} type="number" value={draft.exercise.duration} onChange={(e) => setExerciseField('duration', Number(e.target.value) || 0)} />
+          </div>
+          <div>
+            <Label htmlFor={`${draft.id}-calories`}>{t('log.calories_burned')}</Label>
+            <Input id={`${draft.id}-calories`} type="number" value={draft.exercise.calories} onChange={(e) => setExerciseField('calories', Number(e.target.value) || 0)} />
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div>
+        <Label htmlFor={`${draft.id}-weight`}>{t('ai.actions.weight')}</Label>
+        <Input id={`${draft.id}-weight`} type="number" step="0.1" value={draft.weight} onChange={(e) => setDraft({ ...draft, weight: Number(e.target.value) || 0 })} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-xs lg:max-w-md w-full p-3 rounded-xl border border-purple-500/30 bg-gray-800/70 space-y-2">
+      <p className="text-xs uppercase tracking-wide text-purple-300">
+        {t(`ai.actions.${action.kind}`)}
+        {action.date && action.date !== dateString && ` · ${formatDateKey(action.date, locale, { month: 'short', day: 'numeric' })}`}
+      </p>
+      {draft ? (
+        <form onSubmit={handleSaveEdit} className="space-y-2">
+          {editForm()}
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" onClick={() => setDraft(null)} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">{t('general.cancel')}</Button>
+            <Button type="submit" size="sm">{t('general.save')}</Button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {summary()}
+          {action.status === 'pending' ? (
+            <div className="flex justify-end gap-2">
+              <Button size="sm" onClick={() => onChange({ ...action, status: 'dismissed' })} className="bg-transparent hover:bg-gray-700 text-gray-400 shadow-none">{t('ai.actions.dismiss')}</Button>
+              {action.kind !== 'remove_food' && (
+                <Button size="sm" onClick={() => setDraft(action)} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">{t('ai.actions.edit')}</Button>
+              )}
+              <Button size="sm" onClick={handleAccept} className="bg-purple-600 hover:bg-purple-700">{t('ai.actions.accept')}</Button>
+            </div>
+          ) : (
+            <p className={`text-xs ${action.status === 'accepted' ? 'text-green-400' : action.status === 'failed' ? 'text-red-400' : 'text-gray-500'}`}>{t(`ai.actions.${action.status}`)}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ActionCard;
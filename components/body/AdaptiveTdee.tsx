@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button } from '../ui';
+import { estimateAdaptiveTdee, MIN_SPAN_DAYS } from '../../utils/tdee';
+
+interface AdaptiveTdeeProps {
+  formulaTdee: number | null;
+  dailyGoal: number;
+  onApply: (goal: number) => void;
+}
+
+const AdaptiveTdee: React.FC<AdaptiveTdeeProps> = ({ formulaTdee, dailyGoal, onApply }) => {
+  const { appState, todayString } = useAppState();
+  const { t } = useTranslation(appState.language);
+
+  const { estimate, days, loggedDays } = useMemo(
+    () => estimateAdaptiveTdee(appState.logs, appState.measurements, todayString),
+    [appState.logs, appState.measurements, todayString]
+  );
+
+  if (!estimate) {
+    return (
+      <div className="p-3 bg-gray-800/50 rounded-xl space-y-1">
+        <p className="font-semibold text-white">{t('settings.adaptive_tdee.title')}</p>
+        <p className="text-sm text-gray-400">{t('settings.adaptive_tdee.not_enough_data', { days, required: MIN_SPAN_DAYS, logged: loggedDays })}</p>
+      </div>
+    );
+  }
+
+  const formulaOutOfRange = formulaTdee !== null && (formulaTdee < estimate.low || formulaTdee > estimate.high);
+  const canApply = (formulaTdee === null || formulaOutOfRange) && dailyGoal !== estimate.tdee;
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded-xl space-y-2">
+      <p className="font-semibold text-white">{t('settings.adaptive_tdee.title')}</p>
+      <p className="text-2xl font-bold text-purple-400">
+        {estimate.tdee.toLocaleString()} {t('dashboard.kcal')}
+        <span className="text-sm font-normal text-gray-400 ml-2">
+          {t('settings.adaptive_tdee.range', { low: estimate.low.toLocaleString(), high: estimate.high.toLocaleString() })}
+        </span>
+      </p>
+      <p className="text-sm text-gray-400">
+        {t('settings.adaptive_tdee.details', {
+          intake: estimate.averageIntake.toLocaleString(),
+          change: `${estimate.weightChange > 0 ? '+' : ''}${estimate.weightChange}`,
+          days: estimate.days,
+          logged: estimate.loggedDays,
+        })}
+      </p>
+      {formulaOutOfRange && (
+        <p className="text-sm text-yellow-400">{t('settings.adaptive_tdee.drift', { formula: formulaTdee.toLocaleString() })}</p>
+      )}
+      {canApply && (
+        <Button type="button" onClick={() => onApply(estimate.tdee)} className="bg-purple-600 hover:bg-purple-700">
+          {t('settings.adaptive_tdee.apply', { tdee: estimate.tdee.toLocaleString() })}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AdaptiveTdee;
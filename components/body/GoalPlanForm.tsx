@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { GoalPlan, MacronutrientGoals, PlanPhase } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Input, Label, Select } from '../ui';
+import { calculateFormulaTdee, estimateAdaptiveTdee } from '../../utils/tdee';
+import { getCurrentTrendWeight } from '../../utils/weightTrend';
+import { derivePlanTargets, validatePlan } from '../../utils/plan';
+
+interface GoalPlanFormProps {
+  onApply: (dailyGoal: number, macronutrientGoals: MacronutrientGoals) => void;
+}
+
+type PaceMode = 'rate' | 'date';
+
+const GoalPlanForm: React.FC<GoalPlanFormProps> = ({ onApply }) => {
+  const { appState, setPlan, todayString } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const existing: GoalPlan | null = appState.plan;
+  const currentWeight = getCurrentTrendWeight(appState.measurements) ?? appState.userProfile.weight;
+
+  const [phase, setPhase] = useState<PlanPhase>(existing?.phase || 'cut');
+  const [startWeight, setStartWeight] = useState(existing?.startWeight.toString() || currentWeight?.toString() || '');
+  const [targetWeight, setTargetWeight] = useState(existing?.targetWeight.toString() || '');
+  const [paceMode, setPaceMode] = useState<PaceMode>(existing?.targetDate ? 'date' : 'rate');
+  const [weeklyRate, setWeeklyRate] = useState(existing?.weeklyRate?.toString() || '0.5');
+  const [targetDate, setTargetDate] = useState(existing?.targetDate || '');
+
+  // Prefer the measured expenditure over the formula once there is enough data
+  const adaptive = useMemo(
+    () => estimateAdaptiveTdee(appState.logs, appState.measurements, todayString).estimate,
+    [appState.logs, appState.measurements, todayString]
+  );
+  const maintenance = adaptive?.tdee ?? calculateFormulaTdee(appState.userProfile);
+
+  const start = parseFloat(startWeight);
+  const plan: GoalPlan | null = start > 0 ? {
+    phase,
+    startDate: existing?.startDate || todayString,
+    startWeight: start,
+    targetWeight: phase === 'maintain' ? start : parseFloat(targetWeight) || 0,
+    ...(phase !== 'maintain' && paceMode === 'rate' ? { weeklyRate: parseFloat(weeklyRate) || 0 } : {}),
+    ...(phase !== 'maintain' && paceMode === 'date' && targetDate ? { targetDate } : {}),
+  } : null;
+
+  const targets = plan && maintenance ? derivePlanTargets(plan, maintenance, currentWeight || start) : null;
+  const issues = plan && targets ? validatePlan(plan, targets, appState.userProfile, todayString) : [];
+  const isComplete = plan !== null && (phase === 'maintain' || (plan.targetWeight > 0 && (paceMode === 'rate' ? !!plan.weeklyRate : !!plan.targetDate)));
+
+  const handleSave = () => {
+    if (!plan || !targets || !isComplete || issues.length > 0) return;
+    setPlan(plan);
+    onApply(targets.dailyGoal, targets.macronutrientGoals);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="planPhase">{t('settings.plan.phase')}</Label>
+          <Select id="planPhase" value={phase} onChange={(e) => setPhase(e.target.value as PlanPhase)}>
+            <option value="cut">{t('settings.plan.phases.cut')}</option>
+            <option value="maintain">{t('settings.plan.phases.maintain')}</option>
+            <option value="bulk">{t('settings.plan.phases.bulk')}</option>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="planStartWeight">{t('settings.plan.start_weight')}</Label>
+          <Input id="planStartWeight" type="number" step="0.1" value={startWeight} onChange={(e) => setStartWeight(e.target.value)} />
+        </div>
+        {phase !== 'maintain' && (
+          <>
+            <div>
+              <Label htmlFor="planTargetWeight">{t('settings.plan.target_weight')}</Label>
+              <Input id="planTargetWeight" type="number" step="0.1" value={targetWeight} onChange={(e) => setTargetWeight(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="planPace">{t('settings.plan.pace')}</Label>
+              <Select id="planPace" value={paceMode} onChange={(e) => setPaceMode(e.target.value as PaceMode)}>
+                <option value="rate">{t('settings.plan.pace_rate')}</option>
+                <option value="date">{t('settings.plan.pace_date')}</option>
+              </Select>
+            </div>
+            {paceMode === 'rate' ? (
+              <div>
+                <Label htmlFor="planWeeklyRate">{t('settings.plan.weekly_rate')}</Label>
+                <Input id="planWeeklyRate" type="number" step="0.05" min="0" value={weeklyRate} onChange={(e) => setWeeklyRate(e.target.value)} />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="planTargetDate">{t('settings.plan.target_date')}</Label>
+                <Input id="planTargetDate" type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {maintenance === null ? (
+        <p className="text-sm text-yellow-400">{t('settings.plan.needs_profile')}</p>
+      ) : targets && isComplete && (
+        <div className="p-3 bg-gray-800/50 rounded-xl space-y-1">
+          <p className="text-sm text-gray-400">
+            {t(adaptive ? 'settings.plan.maintenance_adaptive' : 'settings.plan.maintenance_formula', { kcal: maintenance.toLocaleString() })}
+          </p>
+          <p className="font-semibold text-white">
+            {t('settings.plan.derived', {
+              kcal: targets.dailyGoal.toLocaleString(),
+              protein: targets.macronutrientGoals.protein,
+              carbs: targets.macronutrientGoals.carbs,
+              fat: targets.macronutrientGoals.fat,
+            })}
+          </p>
+          {issues.map(issue => (
+            <p key={issue} className="text-sm text-red-400">{t(`settings.plan.issues.${issue}`)}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button type="button" onClick={handleSave} disabled={!targets || !isComplete || issues.length > 0} className="bg-purple-600 hover:bg-purple-700">
+          {t('settings.plan.save')}
+        </Button>
+        {existing && (
+          <Button type="button" onClick={() => setPlan(null)} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+            {t('settings.plan.remove')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GoalPlanForm;
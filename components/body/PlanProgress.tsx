@@ -0,0 +1,72 @@
+import React from 'react';
+import { GoalPlan } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { calculateWeightTrend, getWeeklyRate } from '../../utils/weightTrend';
+import { getPlanProgress } from '../../utils/plan';
+import { formatDateKey } from '../../utils/date';
+
+const STATUS_COLORS = {
+  ahead: 'text-green-400',
+  on_track: 'text-blue-400',
+  behind: 'text-yellow-400',
+};
+
+const PlanProgress: React.FC<{ plan: GoalPlan }> = ({ plan }) => {
+  const { appState, todayString } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+
+  const points = calculateWeightTrend(appState.measurements);
+  const currentWeight = points.length > 0 ? points[points.length - 1].trend : appState.userProfile.weight || plan.startWeight;
+  const progress = getPlanProgress(plan, currentWeight, getWeeklyRate(points), todayString);
+
+  const formatDate = (date: string | null) => date
+    ? formatDateKey(date, locale, { year: 'numeric', month: 'short', day: 'numeric' })
+    : '—';
+
+  const totalChange = plan.targetWeight - plan.startWeight;
+  const percent = totalChange !== 0
+    ? Math.min(100, Math.max(0, ((currentWeight - plan.startWeight) / totalChange) * 100))
+    : 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-baseline">
+        <p className="font-semibold text-white">
+          {t(`settings.plan.phases.${plan.phase}`)}
+          {plan.phase !== 'maintain' && <span className="text-gray-400 font-normal"> · {plan.startWeight} → {plan.targetWeight} kg</span>}
+        </p>
+        <p className={`font-semibold ${STATUS_COLORS[progress.status]}`}>{t(`dashboard.plan.status.${progress.status}`)}</p>
+      </div>
+      {plan.phase !== 'maintain' && (
+        <div className="w-full bg-gray-700 rounded-full h-2.5">
+          <div className="bg-purple-500 h-2.5 rounded-full" style={{ width: `${percent}%` }}></div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-gray-400">{t('dashboard.plan.current')}</p>
+          <p className="text-white font-semibold">{currentWeight.toFixed(1)} kg</p>
+        </div>
+        <div>
+          <p className="text-gray-400">{t('dashboard.plan.expected')}</p>
+          <p className="text-white font-semibold">{progress.expectedWeight.toFixed(1)} kg</p>
+        </div>
+        {plan.phase !== 'maintain' && (
+          <>
+            <div>
+              <p className="text-gray-400">{t('dashboard.plan.planned_completion')}</p>
+              <p className="text-white font-semibold">{formatDate(progress.plannedCompletion)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">{t('dashboard.plan.projected_completion')}</p>
+              <p className="text-white font-semibold">{formatDate(progress.projectedCompletion)}</p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlanProgress;
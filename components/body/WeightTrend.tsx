@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { BodyMeasurement } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { TrashIcon } from '../Icons';
+import { Button, Input, Label } from '../ui';
+import { calculateWeightTrend, getWeeklyRate } from '../../utils/weightTrend';
+import { formatDateKey } from '../../utils/date';
+
+const CHART_DAYS = 60;
+const RECENT_ENTRIES = 5;
+
+type MeasurementFields = Record<keyof BodyMeasurement, string>;
+
+const emptyFields: MeasurementFields = { weight: '', waist: '', hip: '', bodyFat: '' };
+
+const toFields = (measurement?: BodyMeasurement): MeasurementFields => ({
+  weight: measurement?.weight?.toString() || '',
+  waist: measurement?.waist?.toString() || '',
+  hip: measurement?.hip?.toString() || '',
+  bodyFat: measurement?.bodyFat?.toString() || '',
+});
+
+const WeightTrend: React.FC = () => {
+  const { appState, saveMeasurement, removeMeasurement, dateString } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const [date, setDate] = useState(dateString);
+  const [fields, setFields] = useState<MeasurementFields>(emptyFields);
+
+  const measurements: Record<string, BodyMeasurement> = appState.measurements;
+  const points = useMemo(() => calculateWeightTrend(measurements), [measurements]);
+  const weeklyRate = getWeeklyRate(points);
+  const latestTrend = points.length > 0 ? points[points.length - 1].trend : null;
+
+  const chartData = useMemo(() => points.slice(-CHART_DAYS).map(p => ({
+    name: formatDateKey(p.date, locale, { month: '2-digit', day: '2-digit' }),
+    weight: p.weight,
+    trend: Math.round(p.trend * 10) / 10,
+  })), [points, locale]);
+
+  const recentDates = Object.keys(measurements).sort((a, b) => b.localeCompare(a)).slice(0, RECENT_ENTRIES);
+
+  useEffect(() => {
+    setDate(dateString);
+  }, [dateString]);
+
+  // Editing an existing day starts from what was recorded for it
+  useEffect(() => {
+    setFields(toFields(measurements[date]));
+  }, [date, measurements]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFields(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date) return;
+    saveMeasurement(date, {
+      weight: parseFloat(fields.weight) || undefined,
+      waist: parseFloat(fields.waist) || undefined,
+      hip: parseFloat(fields.hip) || undefined,
+      bodyFat: parseFloat(fields.bodyFat) || undefined,
+    });
+  };
+
+  const formatMeasurement = (measurement: BodyMeasurement): string => {
+    return [
+      measurement.weight && `${measurement.weight} kg`,
+      measurement.waist && `${t('dashboard.body.waist')} ${measurement.waist} cm`,
+      measurement.hip && `${t('dashboard.body.hip')} ${measurement.hip} cm`,
+      measurement.bodyFat && `${t('dashboard.body.body_fat')} ${measurement.bodyFat}%`,
+    ].filter(Boolean).join(' · ');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div className="p-3 bg-gray-800/50 rounded-xl">
+          <p className="text-sm text-gray-400">{t('dashboard.body.trend_weight')}</p>
+          <p className="text-2xl font-bold text-purple-400">{latestTrend !== null ? `${latestTrend.toFixed(1)} kg` : '—'}</p>
+        </div>
+        <div className="p-3 bg-gray-800/50 rounded-xl">
+          <p className="text-sm text-gray-400">{t('dashboard.body.weekly_rate')}</p>
+          <p className={`text-2xl font-bold ${weeklyRate === null ? 'text-gray-500' : weeklyRate > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+            {weeklyRate !== null ? `${weeklyRate > 0 ? '+' : ''}${weeklyRate.toFixed(2)} kg` : '—'}
+          </p>
+        </div>
+      </div>
+
+      {chartData.length > 1 ? (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <XAxis dataKey="name" stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} domain={['dataMin - 1', 'dataMax + 1']} allowDecimals={false} />
+              <Tooltip itemStyle={{ color: '#ffffff' }} contentStyle={{ backgroundColor: 'rgba(31, 41, 55, 0.8)', border: '1px solid #374151', borderRadius: '0.5rem', backdropFilter: 'blur(4px)' }} />
+              <Line dataKey="weight" name={t('dashboard.body.weigh_in')} stroke="none" dot={{ r: 3, fill: '#6b7280' }} isAnimationActive={false} />
+              <Line dataKey="trend" name={t('dashboard.body.trend')} stroke="#a855f7" strokeWidth={2} dot={false} type="monotone" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-4">{t('dashboard.body.empty')}</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="col-span-2 md:col-span-1">
+            <Label htmlFor="measurementDate">{t('log.edit.date')}</Label>
+            <Input id="measurementDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+          </div>
+          <div>
+            <Label htmlFor="measurementWeight">{t('settings.user_profile.weight')}</Label>
+            <Input id="measurementWeight" name="weight" type="number" step="0.1" value={fields.weight} onChange={handleChange} />
+          </div>
+          <div>
+            <Label htmlFor="measurementBodyFat">{`${t('dashboard.body.body_fat')} (%)`}</Label>
+            <Input id="measurementBodyFat" name="bodyFat" type="number" step="0.1" value={fields.bodyFat} onChange={handleChange} />
+          </div>
+          <div>
+            <Label htmlFor="measurementWaist">{`${t('dashboard.body.waist')} (cm)`}</Label>
+            <Input id="measurementWaist" name="waist" type="number" step="0.1" value={fields.waist} onChange={handleChange} />
+          </div>
+          <div>
+            <Label htmlFor="measurementHip">{`${t('dashboard.body.hip')} (cm)`}</Label>
+            <Input id="measurementHip" name="hip" type="number" step="0.1" value={fields.hip} onChange={handleChange} />
+          </div>
+        </div>
+        <Button type="submit" className="w-full">{t('dashboard.body.save')}</Button>
+      </form>
+
+      {recentDates.length > 0 && (
+        <ul className="space-y-2">
+          {recentDates.map(entryDate => (
+            <li key={entryDate} className="flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80">
+              <div className="flex-grow">
+                <p className="font-bold text-white">{formatDateKey(entryDate, locale, { year: 'numeric', month: 'short', day: 'numeric' })}</p>
+                <p className="text-sm text-gray-400">{formatMeasurement(measurements[entryDate])}</p>
+              </div>
+              <button type="button" onClick={() => removeMeasurement(entryDate)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WeightTrend;
@@ -1,58 +1,109 @@
 import React, { useState } from 'react';
 import { useAppState } from '../../hooks/useAppState';
 import { useTranslation } from '../../hooks/useTranslation';
-import { Button, Input } from '../ui';
-import { getAiExerciseCalories } from '../../services/geminiService';
+import { useAbortSignal } from '../../hooks/useAbortSignal';
+import { Button, Input, Select } from '../ui';
+import { getAiExerciseCalories } from '../../services/aiService';
+import { isAiConfigured } from '../../services/aiProvider';
+import { getAiErrorMessage } from '../../services/aiErrors';
+import { Activity, ExerciseIntensity, calculateMetCalories, findActivityByName, getActivityById, getDefaultIntensity, searchActivities } from '../../utils/met';
 
-const presetExercises = [
-    { nameKey: 'log.exercise_presets.running' },
-    { nameKey: 'log.exercise_presets.cycling' },
-    { nameKey: 'log.exercise_presets.swimming' },
-    { nameKey: 'log.exercise_presets.weight_lifting' },
-    { nameKey: 'log.exercise_presets.walking' },
-    { nameKey: 'log.exercise_presets.yoga' },
-];
+const presetActivityIds = ['running', 'cycling', 'swimming', 'weight_lifting', 'walking', 'yoga'];
 
 export const AddExerciseForm = () => {
   const { addExercise, appState } = useAppState();
   const { t } = useTranslation(appState.language);
+  const nextSignal = useAbortSignal();
   const [name, setName] = useState('');
   const [duration, setDuration] = useState('');
+  const [activity, setActivity] = useState<Activity | null>(null);
+  const [intensity, setIntensity] = useState<ExerciseIntensity>('moderate');
+  const [useAi, setUseAi] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handlePresetSelect = (presetName: string) => {
-    const presetDuration = 30; // Default to 30 minutes
-    setName(presetName);
-    setDuration(String(presetDuration));
+  const suggestions = showSuggestions && !activity ? searchActivities(name, t) : [];
+  const selectedIntensity = activity
+    ? activity.intensities.find(i => i.intensity === intensity) || getDefaultIntensity(activity)
+    : null;
+  const durationMinutes = parseInt(duration, 10) || 0;
+  const estimatedCalories = selectedIntensity && durationMinutes > 0
+    ? calculateMetCalories(selectedIntensity.met, appState.userProfile.weight, durationMinutes)
+    : null;
+
+  const selectActivity = (selected: Activity) => {
+    setActivity(selected);
+    setIntensity(getDefaultIntensity(selected).intensity);
+    setName(t(selected.nameKey));
+    setUseAi(false);
+    setShowSuggestions(false);
+  };
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    setShowSuggestions(true);
+    const match = findActivityByName(value, t);
+    if (match) {
+      setActivity(match);
+      setIntensity(getDefaultIntensity(match).intensity);
+    } else {
+      setActivity(null);
+    }
+  };
+
+  const handlePresetSelect = (activityId: string) => {
+    const preset = getActivityById(activityId);
+    if (!preset) return;
+    selectActivity(preset);
+    setDuration('30'); // Default to 30 minutes
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name || !duration) return;
+    if (!selectedIntensity && !useAi) {
+      setError(t('log.met.not_in_catalogue'));
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
+    const signal = nextSignal();
 
     try {
-      const calories = await getAiExerciseCalories(
-        name,
-        parseInt(duration, 10),
-        appState.userProfile,
-        appState.apiKey!,
-        appState.aiModel,
-        appState.language
-      );
-      addExercise({
-        name,
-        duration: parseInt(duration, 10),
-        calories,
-      });
+      if (activity && selectedIntensity) {
+        const entryName = activity.intensities.length > 1
+          ? `${t(activity.nameKey)} (${t(`log.met.intensity.${selectedIntensity.intensity}`)})`
+          : t(activity.nameKey);
+        addExercise({
+          name: entryName,
+          duration: durationMinutes,
+          calories: calculateMetCalories(selectedIntensity.met, appState.userProfile.weight, durationMinutes),
+          met: selectedIntensity.met,
+        });
+      } else {
+        const calories = await getAiExerciseCalories(
+          name,
+          durationMinutes,
+          appState.userProfile,
+          appState,
+          appState.language,
+          signal
+        );
+        addExercise({
+          name,
+          duration: durationMinutes,
+          calories,
+        });
+      }
       setName('');
       setDuration('');
+      setActivity(null);
+      setUseAi(false);
     } catch (err) {
-      setError(t('camera.scan_error')); // Using a generic error message
-      console.error(err);
+      if (signal.aborted) return;
+      setError(getAiErrorMessage(err, appState, t));
     } finally {
       setIsLoading(false);
     }
@@ -61,14 +112,35 @@ export const AddExerciseForm = () => {
   return (
     <form onSubmit={handleSubmit} className="space-y-4 p-2">
       <div className="space-y-2">
-        <Input
-            type="text"
-            value={name}
-            onChange={e => setName(e.target.value)}
-            placeholder={t('log.exercise_name')}
-            required
-        />
-        <div className="grid grid-cols-1 gap-2">
+        <div className="relative">
+          <Input
+              type="text"
+              value={name}
+              onChange={e => handleNameChange(e.target.value)}
+              onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+              placeholder={t('log.exercise_name')}
+              autoComplete="off"
+              required
+          />
+          {suggestions.length > 0 && (
+            <ul className="absolute z-20 mt-1 w-full rounded-lg border border-white/10 bg-gray-900/95 backdrop-blur-md shadow-lg overflow-hidden">
+              {suggestions.map(s => (
+                <li key={s.id}>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => selectActivity(s)}
+                    className="w-full flex justify-between items-center px-3 py-2 text-left text-sm text-gray-200 hover:bg-white/10"
+                  >
+                    <span>{t(s.nameKey)}</span>
+                    <span className="text-xs text-gray-400">{s.intensities.map(i => i.met).join(' / ')} MET</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className={`grid gap-2 ${activity && activity.intensities.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
             <Input
                 type="number"
                 value={duration}
@@ -76,29 +148,57 @@ export const AddExerciseForm = () => {
                 placeholder={t('log.duration_mins')}
                 required
             />
+            {activity && activity.intensities.length > 1 && (
+              <Select value={intensity} onChange={e => setIntensity(e.target.value as ExerciseIntensity)}>
+                {activity.intensities.map(i => (
+                  <option key={i.intensity} value={i.intensity}>{t(`log.met.intensity.${i.intensity}`)} ({i.met} MET)</option>
+                ))}
+              </Select>
+            )}
         </div>
+        {estimatedCalories !== null && (
+          <p className="text-sm text-gray-300 text-center">
+            {t('log.met.estimate', { calories: estimatedCalories })}
+            {!appState.userProfile.weight && <span className="block text-xs text-gray-500">{t('log.met.default_weight_hint')}</span>}
+          </p>
+        )}
+        {name && !activity && (
+          <div className="p-3 bg-gray-800/50 rounded-xl text-sm space-y-2">
+            <p className="text-gray-400">{t('log.met.not_in_catalogue')}</p>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={useAi}
+                onChange={e => setUseAi(e.target.checked)}
+                disabled={!isAiConfigured(appState)}
+              />
+              {t('log.met.use_ai')}
+            </label>
+            {!isAiConfigured(appState) && <p className="text-xs text-gray-500">{t('settings.api_key_required_error')}</p>}
+          </div>
+        )}
         {error && <p className="text-red-500 text-sm">{error}</p>}
       </div>
-      <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading}>
+      <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading || (!activity && !useAi)}>
           {isLoading ? t('loading') : t('log.add_exercise')}
       </Button>
-      
+
       <div className="pt-4 border-t border-gray-700/50">
           <h4 className="text-center text-gray-400 mb-3 text-sm">{t('log.exercise_presets.title')}</h4>
           <div className="flex flex-wrap justify-center gap-2">
-              {presetExercises.map(p => (
+              {presetActivityIds.map(id => (
                   <Button
-                      key={p.nameKey}
+                      key={id}
                       type="button"
-                      onClick={() => handlePresetSelect(t(p.nameKey))}
+                      onClick={() => handlePresetSelect(id)}
                       className="bg-gray-700 hover:bg-gray-600 text-xs font-normal h-8 px-3"
                       size="sm"
                   >
-                      {t(p.nameKey)}
+                      {t(`log.activities.${id}`)}
                   </Button>
               ))}
           </div>
       </div>
     </form>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { ExerciseEntry } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Input, Label, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogClose } from '../ui';
+import { calculateMetCalories } from '../../utils/met';
+
+interface EditExerciseDialogProps {
+  entry: ExerciseEntry | null;
+  onClose: () => void;
+}
+
+export const EditExerciseDialog: React.FC<EditExerciseDialogProps> = ({ entry, onClose }) => {
+  const { appState, updateExercise, dateString } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [name, setName] = useState('');
+  const [duration, setDuration] = useState('');
+  const [calories, setCalories] = useState('');
+  const [date, setDate] = useState(dateString);
+  const [time, setTime] = useState('');
+
+  useEffect(() => {
+    if (entry) {
+      setName(entry.name);
+      setDuration(String(entry.duration));
+      setCalories(String(entry.calories));
+      setDate(dateString);
+      setTime(entry.time || '');
+    }
+  }, [entry, dateString]);
+
+  const handleDurationChange = (value: string) => {
+    setDuration(value);
+    // Entries logged from the MET catalogue can be rescaled without another estimate
+    const minutes = parseInt(value, 10);
+    if (entry?.met && minutes > 0) {
+      setCalories(String(calculateMetCalories(entry.met, appState.userProfile.weight, minutes)));
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entry || !name.trim() || !date) return;
+
+    updateExercise({
+      ...entry,
+      name: name.trim(),
+      duration: parseInt(duration, 10) || 0,
+      calories: parseInt(calories, 10) || 0,
+      time: time || undefined,
+    }, date);
+    onClose();
+  };
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent onClose={onClose}>
+        <DialogHeader>
+          <DialogTitle>{t('log.edit.exercise_title')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="editExerciseName">{t('log.exercise_name')}</Label>
+            <Input id="editExerciseName" type="text" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="editExerciseDuration">{t('log.duration_mins')}</Label>
+              <Input id="editExerciseDuration" type="number" value={duration} onChange={(e) => handleDurationChange(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="editExerciseCalories">{t('log.calories_burned')}</Label>
+              <Input id="editExerciseCalories" type="number" value={calories} onChange={(e) => setCalories(e.target.value)} required />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="editExerciseDate">{t('log.edit.date')}</Label>
+              <Input id="editExerciseDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="editExerciseTime">{t('log.edit.performed_at')}</Label>
+              <Input id="editExerciseTime" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose>
+              <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                {t('general.cancel')}
+              </Button>
+            </DialogClose>
+            <Button type="submit">{t('general.save')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,8 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAppState } from '../../hooks/useAppState';
 import { useTranslation } from '../../hooks/useTranslation';
-import { TrashIcon } from '../Icons';
+import { PencilIcon, TrashIcon } from '../Icons';
 import { ExerciseEntry } from '../../types';
+import { EditExerciseDialog } from './EditExerciseDialog';
+import { formatTimeOfDay } from '../../utils/date';
 
 interface ExerciseLogProps {
   exercises: ExerciseEntry[];
@@ -10,7 +12,8 @@ interface ExerciseLogProps {
 
 export const ExerciseLog: React.FC<ExerciseLogProps> = ({ exercises }) => {
   const { removeExercise, appState } = useAppState();
-  const { t } = useTranslation(appState.language);
+  const { t, locale } = useTranslation(appState.language);
+  const [editingEntry, setEditingEntry] = useState<ExerciseEntry | null>(null);
 
   const totalCalories = exercises.reduce((sum, entry) => sum + entry.calories, 0);
 
@@ -29,17 +32,24 @@ export const ExerciseLog: React.FC<ExerciseLogProps> = ({ exercises }) => {
           <li key={exercise.id} className="flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80 hover:shadow-lg">
             <div className="flex-grow">
               <p className="font-bold text-white capitalize">{exercise.name}</p>
-              <p className="text-sm text-gray-400">{exercise.duration} {t('log.duration_unit')}</p>
+              <p className="text-sm text-gray-400">
+                {exercise.duration} {t('log.duration_unit')}
+                {exercise.time && <span> · {formatTimeOfDay(exercise.time, locale)}</span>}
+              </p>
             </div>
             <div className="text-right flex-shrink-0 pr-3">
               <p className="font-bold text-lg text-green-400">{exercise.calories.toLocaleString()}</p>
             </div>
+            <button onClick={() => setEditingEntry(exercise)} className="text-gray-600 hover:text-blue-400 transition-colors opacity-50 hover:opacity-100 mr-3">
+              <PencilIcon className="w-5 h-5" />
+            </button>
             <button onClick={() => removeExercise(exercise.id)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
               <TrashIcon className="w-5 h-5" />
             </button>
           </li>
         ))}
       </ul>
+      <EditExerciseDialog entry={editingEntry} onClose={() => setEditingEntry(null)} />
     </div>
   );
 };
\ No newline at end of file
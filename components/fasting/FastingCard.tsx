@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui';
+import { FASTING_PROTOCOLS, getLastMealTime } from '../../utils/fasting';
+import FastingHistory from './FastingHistory';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// H:MM:SS, counting hours past 24 rather than rolling over into days
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const FastingCard: React.FC = () => {
+  const { appState, startFast, endFast } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const { protocol, activeStart } = appState.fasting;
+  const [now, setNow] = useState(Date.now());
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  useEffect(() => {
+    if (activeStart === null) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [activeStart]);
+
+  const lastMeal = useMemo(
+    () => activeStart === null ? getLastMealTime(appState.logs, appState.dayStartHour) : null,
+    [appState.logs, appState.dayStartHour, activeStart]
+  );
+
+  const targetMs = FASTING_PROTOCOLS[protocol] * HOUR_MS;
+  const elapsed = activeStart !== null ? now - activeStart : 0;
+  const progress = Math.min(100, (elapsed / targetMs) * 100);
+  const formatClock = (ms: number) => new Date(ms).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardDescription>{t('fasting.title')} · {protocol}</CardDescription>
+        <CardTitle className="text-purple-400 text-2xl tabular-nums">
+          {activeStart !== null ? formatElapsed(elapsed) : t('fasting.not_fasting')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {activeStart !== null ? (
+          <>
+            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div className={`h-full transition-all ${elapsed >= targetMs ? 'bg-green-500' : 'bg-purple-500'}`} style={{ width: `${progress}%` }} />
+            </div>
+            <p className="text-xs text-gray-400">
+              {elapsed >= targetMs
+                ? t('fasting.goal_reached')
+                : t('fasting.remaining', { time: formatElapsed(targetMs - elapsed), end: formatClock(activeStart + targetMs) })}
+            </p>
+            <Button size="sm" onClick={() => endFast()} className="w-full bg-gray-600 hover:bg-gray-700">{t('fasting.stop')}</Button>
+          </>
+        ) : (
+          <>
+            <Button size="sm" onClick={() => startFast()} className="w-full bg-purple-600 hover:bg-purple-700">{t('fasting.start')}</Button>
+            {lastMeal !== null && (
+              <Button size="sm" onClick={() => startFast(lastMeal)} className="w-full bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                {t('fasting.start_from_meal', { time: formatClock(lastMeal) })}
+              </Button>
+            )}
+          </>
+        )}
+        <button type="button" onClick={() => setIsHistoryOpen(true)} className="text-xs text-gray-400 hover:text-white underline">
+          {t('fasting.history.open')}
+        </button>
+      </CardContent>
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent onClose={() => setIsHistoryOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{t('fasting.history.title')}</DialogTitle>
+          </DialogHeader>
+          <FastingHistory />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default FastingCard;
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { FastingProtocol } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { TrashIcon } from '../Icons';
+import { Label, Select } from '../ui';
+import { FASTING_PROTOCOLS, getFastHours, getFastingStats, isFastCompleted } from '../../utils/fasting';
+
+const FastingHistory: React.FC = () => {
+  const { appState, removeFast, setFastingProtocol } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const { protocol, history } = appState.fasting;
+
+  const stats = useMemo(() => getFastingStats(history, appState.dayStartHour), [history, appState.dayStartHour]);
+  const recent = useMemo(() => [...history].sort((a, b) => b.end - a.end).slice(0, 30), [history]);
+
+  const formatHours = (hours: number | null) => hours === null ? '—' : `${hours.toFixed(1)} h`;
+  const formatMoment = (ms: number) => new Date(ms).toLocaleString(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="fastingProtocol">{t('fasting.protocol')}</Label>
+        <Select id="fastingProtocol" value={protocol} onChange={(e) => setFastingProtocol(e.target.value as FastingProtocol)}>
+          {(Object.keys(FASTING_PROTOCOLS) as FastingProtocol[]).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div className="p-3 bg-gray-800/50 rounded-xl">
+          <p className="text-xs text-gray-500">{t('fasting.history.current_streak')}</p>
+          <p className="font-bold text-white">{t('fasting.history.days', { count: stats.currentStreak })}</p>
+        </div>
+        <div className="p-3 bg-gray-800/50 rounded-xl">
+          <p className="text-xs text-gray-500">{t('fasting.history.best_streak')}</p>
+          <p className="font-bold text-white">{t('fasting.history.days', { count: stats.bestStreak })}</p>
+        </div>
+        <div className="p-3 bg-gray-800/50 rounded-xl">
+          <p className="text-xs text-gray-500">{t('fasting.history.average')}</p>
+          <p className="font-bold text-white">{formatHours(stats.averageHours)}</p>
+        </div>
+        <div className="p-3 bg-gray-800/50 rounded-xl">
+          <p className="text-xs text-gray-500">{t('fasting.history.completed')}</p>
+          <p className="font-bold text-white">{stats.completionRate === null ? '—' : `${Math.round(stats.completionRate * 100)}%`}</p>
+        </div>
+      </div>
+
+      {recent.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">{t('fasting.history.empty')}</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {recent.map(fast => (
+            <li key={fast.id} className="flex items-center p-3 bg-gray-800/50 rounded-xl">
+              <div className="flex-grow">
+                <p className="font-bold text-white">{formatHours(getFastHours(fast))}</p>
+                <p className="text-xs text-gray-400">{formatMoment(fast.start)} → {formatMoment(fast.end)}</p>
+              </div>
+              <span className={`text-xs mr-3 ${isFastCompleted(fast) ? 'text-green-400' : 'text-gray-500'}`}>
+                {isFastCompleted(fast) ? t('fasting.history.reached', { hours: fast.targetHours }) : t('fasting.history.missed', { hours: fast.targetHours })}
+              </span>
+              <button type="button" onClick={() => removeFast(fast.id)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FastingHistory;
@@ -1,38 +1,55 @@
-import React, { useState, useEffect } from 'react';
-import { FoodEntry } from '../../types';
+import React, { useState } from 'react';
+import { CustomFood, FoodEntry } from '../../types';
 import { useAppState } from '../../hooks/useAppState';
 import { useTranslation } from '../../hooks/useTranslation';
+import { useNutritionForm } from '../../hooks/useNutritionForm';
+import { useAbortSignal } from '../../hooks/useAbortSignal';
 import { CameraIcon, UploadIcon } from '../Icons';
 import { Button, Input, Select } from '../ui';
-import { getAiFoodNutrition } from '../../services/geminiService';
+import { getAiFoodNutrition } from '../../services/aiService';
+import { getAiErrorMessage } from '../../services/aiErrors';
+import { findCustomFoodByName, searchCustomFoods } from '../../utils/customFoods';
+import { defaultPortion, isSamePortion, portionFromAnalysis, scaleNutrition, toPer100g } from '../../utils/portions';
+import { scaleMicronutrients } from '../../utils/nutrients';
+import PortionFields from './PortionFields';
 
 
 interface AddFoodFormProps {
   onAddFood: (food: Omit<FoodEntry, 'id'>) => void;
   onUpload: () => void;
-  scannedFood: { name?: string; calories?: string; protein?: string; carbs?: string; fat?: string; };
 }
-const AddFoodForm: React.FC<AddFoodFormProps> = ({ onAddFood, onUpload, scannedFood }) => {
+const AddFoodForm: React.FC<AddFoodFormProps> = ({ onAddFood, onUpload }) => {
   const [name, setName] = useState('');
-  const [calories, setCalories] = useState('');
-  const [protein, setProtein] = useState('');
-  const [carbs, setCarbs] = useState('');
-  const [fat, setFat] = useState('');
+  const nutritionForm = useNutritionForm();
+  const { fields, setField, portion, setPortion, per100g, load, reset } = nutritionForm;
   const [meal, setMeal] = useState<'breakfast' | 'lunch' | 'dinner' | 'snack'>('breakfast');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const { appState } = useAppState();
   const { t } = useTranslation(appState.language);
+  const nextSignal = useAbortSignal();
 
-  useEffect(() => {
-    if (scannedFood) {
-      setName(scannedFood.name || '');
-      setCalories(scannedFood.calories || '');
-      setProtein(scannedFood.protein || '');
-      setCarbs(scannedFood.carbs || '');
-      setFat(scannedFood.fat || '');
+  const suggestions = showSuggestions ? searchCustomFoods(appState.customFoods, name) : [];
+
+  const applyCustomFood = (food: CustomFood) => {
+    setName(food.name);
+    load(food, food.portion, food.per100g);
+  };
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    setShowSuggestions(true);
+    const match = findCustomFoodByName(appState.customFoods, value);
+    if (match) {
+      applyCustomFood(match);
     }
-  }, [scannedFood]);
+  };
+
+  const handleSuggestionSelect = (food: CustomFood) => {
+    applyCustomFood(food);
+    setShowSuggestions(false);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,39 +57,60 @@ const AddFoodForm: React.FC<AddFoodFormProps> = ({ onAddFood, onUpload, scannedF
 
     setIsLoading(true);
     setError(null);
+    const signal = nextSignal();
 
     try {
-      let foodData;
-      if (calories && protein && carbs && fat) {
+      let foodData: Omit<FoodEntry, 'id'>;
+      const libraryMatch = findCustomFoodByName(appState.customFoods, name);
+      if (nutritionForm.isComplete) {
           foodData = {
               name,
-              calories: parseInt(calories, 10),
-              protein: parseInt(protein, 10) || 0,
-              carbs: parseInt(carbs, 10) || 0,
-              fat: parseInt(fat, 10) || 0,
+              ...nutritionForm.nutrition,
+              meal,
+              portion,
+              per100g,
+              // A saved food loaded into the form keeps its micronutrients, scaled to the chosen portion
+              micronutrients: libraryMatch ? scaleMicronutrients(libraryMatch.micronutrients, libraryMatch.portion, portion) : undefined,
+          };
+      } else if (libraryMatch) {
+          foodData = {
+              name: libraryMatch.name,
+              calories: libraryMatch.calories,
+              protein: libraryMatch.protein,
+              carbs: libraryMatch.carbs,
+              fat: libraryMatch.fat,
               meal,
+              portion: libraryMatch.portion,
+              per100g: libraryMatch.per100g,
+              micronutrients: libraryMatch.micronutrients,
           };
       } else {
-          const nutrition = await getAiFoodNutrition(name, appState.apiKey!, appState.aiModel, appState.language);
+          const nutrition = await getAiFoodNutrition(name, appState, appState.language, signal);
+          const assumedPortion = portionFromAnalysis(nutrition);
+          const base = toPer100g(nutrition, assumedPortion);
+          // Keep a portion the user already picked and rescale the estimate to it
+          const finalPortion = base && !isSamePortion(portion, defaultPortion) ? portion : assumedPortion;
+          const scaled = base ? scaleNutrition(base, finalPortion) : nutrition;
           foodData = {
               name: nutrition.foodName,
-              calories: nutrition.calories,
-              protein: nutrition.protein,
-              carbs: nutrition.carbs,
-              fat: nutrition.fat,
+              calories: scaled.calories,
+              protein: scaled.protein,
+              carbs: scaled.carbs,
+              fat: scaled.fat,
               meal,
+              portion: finalPortion,
+              per100g: base,
+              micronutrients: scaleMicronutrients(nutrition.micronutrients, assumedPortion, finalPortion),
           };
       }
       
       onAddFood(foodData);
       setName('');
-      setCalories('');
-      setProtein('');
-      setCarbs('');
-      setFat('');
+      reset();
+      setShowSuggestions(false);
     } catch (err) {
-      setError(t('camera.scan_error')); // Using a generic error message
-      console.error(err);
+      if (signal.aborted) return;
+      setError(getAiErrorMessage(err, appState, t));
     } finally {
       setIsLoading(false);
     }
@@ -81,40 +119,63 @@ const AddFoodForm: React.FC<AddFoodFormProps> = ({ onAddFood, onUpload, scannedF
   return (
     <form onSubmit={handleSubmit} className="space-y-4 p-2">
       <div className="space-y-4">
-        <Input
-          type="text"
-          placeholder={t('log.food_name_placeholder')}
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-          required
-          className="w-full"
-        />
+        <div className="relative">
+          <Input
+            type="text"
+            placeholder={t('log.food_name_placeholder')}
+            value={name}
+            onChange={(e) => handleNameChange(e.target.value)}
+            onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+            autoComplete="off"
+            required
+            className="w-full"
+          />
+          {suggestions.length > 0 && (
+            <ul className="absolute z-20 mt-1 w-full rounded-lg border border-white/10 bg-gray-900/95 backdrop-blur-md shadow-lg overflow-hidden">
+              {suggestions.map(food => (
+                <li key={food.id}>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => handleSuggestionSelect(food)}
+                    className="w-full flex justify-between items-center px-3 py-2 text-left text-sm text-gray-200 hover:bg-white/10"
+                  >
+                    <span className="capitalize">{food.name}</span>
+                    <span className="text-xs text-gray-400">{food.calories} {t('dashboard.kcal')}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
         <p className="text-xs text-gray-400 -mt-2 text-center">{t('log.ai_fill_tip')}</p>
         
+        <PortionFields portion={portion} onChange={setPortion} t={t} />
+
         <div className="grid grid-cols-2 gap-4">
           <Input
             type="number"
             placeholder={t('log.calories')}
-            value={calories}
-            onChange={(e) => setCalories(e.target.value)}
+            value={fields.calories}
+            onChange={(e) => setField('calories', e.target.value)}
           />
           <Input
             type="number"
             placeholder={`${t('log.protein')} (g)`}
-            value={protein}
-            onChange={(e) => setProtein(e.target.value)}
+            value={fields.protein}
+            onChange={(e) => setField('protein', e.target.value)}
           />
           <Input
             type="number"
             placeholder={`${t('log.carbs')} (g)`}
-            value={carbs}
-            onChange={(e) => setCarbs(e.target.value)}
+            value={fields.carbs}
+            onChange={(e) => setField('carbs', e.target.value)}
           />
           <Input
             type="number"
             placeholder={`${t('log.fat')} (g)`}
-            value={fat}
-            onChange={(e) => setFat(e.target.value)}
+            value={fields.fat}
+            onChange={(e) => setField('fat', e.target.value)}
           />
         </div>
         
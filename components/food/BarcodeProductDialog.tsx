@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { BarcodeProduct, FoodEntry, Nutrition } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useNutritionForm } from '../../hooks/useNutritionForm';
+import { Button, Input, Label, Select, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription, DialogClose } from '../ui';
+import PortionFields from './PortionFields';
+
+interface BarcodeProductDialogProps {
+  code: string | null;
+  onAddFood: (food: Omit<FoodEntry, 'id'>) => void;
+  onClose: () => void;
+}
+
+const BarcodeProductDialog: React.FC<BarcodeProductDialogProps> = ({ code, onAddFood, onClose }) => {
+  const { appState, saveProduct } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [name, setName] = useState('');
+  const [meal, setMeal] = useState<FoodEntry['meal']>('breakfast');
+  const { fields, setField, portion, setPortion, per100g, load, reset, nutrition } = useNutritionForm();
+
+  const product: BarcodeProduct | undefined = code ? appState.products[code] : undefined;
+
+  useEffect(() => {
+    if (!code) return;
+    if (product) {
+      setName(product.name);
+      load(product, product.portion, product.per100g);
+    } else {
+      setName('');
+      reset();
+    }
+    // Only reload when a different code is scanned, not when the product table changes
+  }, [code]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setField(e.target.name as keyof Nutrition, e.target.value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code || !name.trim() || !fields.calories) return;
+
+    if (!product) {
+      // The values entered for an unknown code are the label serving, so store them as-is
+      saveProduct({ code, name: name.trim(), ...nutrition, portion, per100g });
+    }
+    onAddFood({ name: name.trim(), ...nutrition, meal, portion, per100g });
+    onClose();
+  };
+
+  return (
+    <Dialog open={code !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent onClose={onClose}>
+        <DialogHeader>
+          <DialogTitle>{product ? product.name : t('camera.barcode.unknown_title')}</DialogTitle>
+          <DialogDescription>
+            {product ? t('camera.barcode.found_desc', { code: code || '' }) : t('camera.barcode.unknown_desc', { code: code || '' })}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!product && (
+            <div>
+              <Label htmlFor="productName">{t('log.food_name')}</Label>
+              <Input id="productName" type="text" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+          )}
+          <div>
+            <Label>{product ? t('log.portion.label') : t('camera.barcode.serving_size')}</Label>
+            <PortionFields portion={portion} onChange={setPortion} t={t} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="productCalories">{t('log.calories')}</Label>
+              <Input id="productCalories" name="calories" type="number" value={fields.calories} onChange={handleChange} readOnly={!!product} required />
+            </div>
+            <div>
+              <Label htmlFor="productProtein">{`${t('log.protein')} (g)`}</Label>
+              <Input id="productProtein" name="protein" type="number" value={fields.protein} onChange={handleChange} readOnly={!!product} />
+            </div>
+            <div>
+              <Label htmlFor="productCarbs">{`${t('log.carbs')} (g)`}</Label>
+              <Input id="productCarbs" name="carbs" type="number" value={fields.carbs} onChange={handleChange} readOnly={!!product} />
+            </div>
+            <div>
+              <Label htmlFor="productFat">{`${t('log.fat')} (g)`}</Label>
+              <Input id="productFat" name="fat" type="number" value={fields.fat} onChange={handleChange} readOnly={!!product} />
+            </div>
+          </div>
+          <Select value={meal} onChange={(e) => setMeal(e.target.value as FoodEntry['meal'])}>
+            <option value="breakfast">{t('log.meal.breakfast')}</option>
+            <option value="lunch">{t('log.meal.lunch')}</option>
+            <option value="dinner">{t('log.meal.dinner')}</option>
+            <option value="snack">{t('log.meal.snack')}</option>
+          </Select>
+          <DialogFooter>
+            <DialogClose>
+              <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                {t('general.cancel')}
+              </Button>
+            </DialogClose>
+            <Button type="submit">{product ? t('log.add_food') : t('camera.barcode.save_and_add')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeProductDialog;
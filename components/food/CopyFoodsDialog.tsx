@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { FoodEntry } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Input, Label, Select, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogClose } from '../ui';
+import { addDaysToKey } from '../../utils/date';
+
+export type CopyMode = 'copy' | 'move';
+
+interface CopyFoodsDialogProps {
+  entries: FoodEntry[] | null;
+  mode: CopyMode;
+  onDone: () => void;
+  onClose: () => void;
+}
+
+const CopyFoodsDialog: React.FC<CopyFoodsDialogProps> = ({ entries, mode, onDone, onClose }) => {
+  const { appState, copyFoods, moveFoods, dateString } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [date, setDate] = useState(dateString);
+  const [meal, setMeal] = useState<FoodEntry['meal'] | ''>('');
+
+  useEffect(() => {
+    if (entries) {
+      setDate(addDaysToKey(dateString, 1));
+      setMeal('');
+    }
+  }, [entries, dateString]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entries || entries.length === 0 || !date) return;
+    if (mode === 'copy') {
+      copyFoods(entries, date, meal || undefined);
+    } else {
+      moveFoods(entries.map(entry => entry.id), date, meal || undefined);
+    }
+    onDone();
+  };
+
+  const count = entries?.length || 0;
+
+  return (
+    <Dialog open={entries !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent onClose={onClose}>
+        <DialogHeader>
+          <DialogTitle>{t(mode === 'copy' ? 'log.copy.copy_title' : 'log.copy.move_title', { count })}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="copyFoodsDate">{t('log.copy.target_date')}</Label>
+              <Input id="copyFoodsDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="copyFoodsMeal">{t('log.meal.label')}</Label>
+              <Select id="copyFoodsMeal" value={meal} onChange={(e) => setMeal(e.target.value as FoodEntry['meal'] | '')}>
+                <option value="">{t('log.copy.keep_meal')}</option>
+                <option value="breakfast">{t('log.meal.breakfast')}</option>
+                <option value="lunch">{t('log.meal.lunch')}</option>
+                <option value="dinner">{t('log.meal.dinner')}</option>
+                <option value="snack">{t('log.meal.snack')}</option>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose>
+              <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                {t('general.cancel')}
+              </Button>
+            </DialogClose>
+            <Button type="submit">{t(mode === 'copy' ? 'log.copy.copy' : 'log.copy.move')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CopyFoodsDialog;
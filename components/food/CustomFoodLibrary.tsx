@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { CustomFood, Nutrition } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useNutritionForm } from '../../hooks/useNutritionForm';
+import { PencilIcon, PlusIcon, TrashIcon } from '../Icons';
+import { Button, Input, Label, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogClose } from '../ui';
+import { searchCustomFoods } from '../../utils/customFoods';
+import { defaultPortion, formatPortion } from '../../utils/portions';
+import { scaleMicronutrients } from '../../utils/nutrients';
+import PortionFields from './PortionFields';
+
+const CustomFoodLibrary: React.FC = () => {
+  const { appState, addCustomFood, updateCustomFood, removeCustomFood } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [query, setQuery] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const { fields, setField, portion, setPortion, per100g, load, reset, nutrition } = useNutritionForm();
+
+  const customFoods: CustomFood[] = appState.customFoods;
+  const visibleFoods = query.trim()
+    ? searchCustomFoods(customFoods, query, customFoods.length)
+    : [...customFoods].sort((a, b) => a.name.localeCompare(b.name));
+
+  const openCreate = () => {
+    setEditingId(null);
+    setName('');
+    reset();
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (food: CustomFood) => {
+    setEditingId(food.id);
+    setName(food.name);
+    load(food, food.portion, food.per100g);
+    setIsDialogOpen(true);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setField(e.target.name as keyof Nutrition, e.target.value);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !fields.calories) return;
+
+    const food = {
+      name: name.trim(),
+      ...nutrition,
+      portion,
+      per100g,
+    };
+    if (editingId) {
+      const existing = customFoods.find(f => f.id === editingId);
+      const micronutrients = scaleMicronutrients(existing?.micronutrients, existing?.portion || defaultPortion, portion);
+      updateCustomFood({ ...food, micronutrients, id: editingId });
+    } else {
+      addCustomFood(food);
+    }
+    setIsDialogOpen(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          type="text"
+          placeholder={t('log.my_foods.search_placeholder')}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="flex-1"
+        />
+        <Button type="button" onClick={openCreate} size="icon" className="flex-shrink-0">
+          <PlusIcon className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {customFoods.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">{t('log.my_foods.empty')}</p>
+      ) : visibleFoods.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">{t('log.my_foods.no_results')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleFoods.map(food => (
+            <li key={food.id} className="flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80">
+              <div className="flex-grow">
+                <p className="font-bold text-white capitalize">{food.name}</p>
+                {food.portion && <p className="text-sm text-gray-400">{formatPortion(food.portion, t(`log.portion.units.${food.portion.unit}`))}</p>}
+                <div className="text-xs text-gray-500 mt-1 flex space-x-2">
+                  <span>{food.calories} {t('dashboard.kcal')}</span>
+                  <span>P: {food.protein}g</span>
+                  <span>C: {food.carbs}g</span>
+                  <span>F: {food.fat}g</span>
+                </div>
+              </div>
+              <button type="button" onClick={() => openEdit(food)} className="text-gray-600 hover:text-blue-400 transition-colors opacity-50 hover:opacity-100 mr-3">
+                <PencilIcon className="w-5 h-5" />
+              </button>
+              <button type="button" onClick={() => removeCustomFood(food.id)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? t('log.my_foods.edit') : t('log.my_foods.create')}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="customFoodName">{t('log.food_name')}</Label>
+              <Input id="customFoodName" type="text" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div>
+              <Label>{t('log.portion.label')}</Label>
+              <PortionFields portion={portion} onChange={setPortion} t={t} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="customFoodCalories">{t('log.calories')}</Label>
+                <Input id="customFoodCalories" name="calories" type="number" value={fields.calories} onChange={handleChange} required />
+              </div>
+              <div>
+                <Label htmlFor="customFoodProtein">{`${t('log.protein')} (g)`}</Label>
+                <Input id="customFoodProtein" name="protein" type="number" value={fields.protein} onChange={handleChange} />
+              </div>
+              <div>
+                <Label htmlFor="customFoodCarbs">{`${t('log.carbs')} (g)`}</Label>
+                <Input id="customFoodCarbs" name="carbs" type="number" value={fields.carbs} onChange={handleChange} />
+              </div>
+              <div>
+                <Label htmlFor="customFoodFat">{`${t('log.fat')} (g)`}</Label>
+                <Input id="customFoodFat" name="fat" type="number" value={fields.fat} onChange={handleChange} />
+              </div>
+            </div>
+            <DialogFooter>
+              <DialogClose>
+                <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                  {t('general.cancel')}
+                </Button>
+              </DialogClose>
+              <Button type="submit">{t('general.save')}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CustomFoodLibrary;
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { FoodEntry, Nutrition } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useNutritionForm } from '../../hooks/useNutritionForm';
+import { Button, Input, Label, Select, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogClose } from '../ui';
+import { defaultPortion } from '../../utils/portions';
+import { scaleMicronutrients } from '../../utils/nutrients';
+import PortionFields from './PortionFields';
+
+interface EditFoodDialogProps {
+  entry: FoodEntry | null;
+  onClose: () => void;
+}
+
+const EditFoodDialog: React.FC<EditFoodDialogProps> = ({ entry, onClose }) => {
+  const { appState, updateFood, dateString } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [name, setName] = useState('');
+  const { fields, setField, portion, setPortion, per100g, load, nutrition } = useNutritionForm();
+  const [meal, setMeal] = useState<FoodEntry['meal']>('breakfast');
+  const [date, setDate] = useState(dateString);
+  const [time, setTime] = useState('');
+
+  useEffect(() => {
+    if (entry) {
+      setName(entry.name);
+      load(entry, entry.portion, entry.per100g);
+      setMeal(entry.meal);
+      setDate(dateString);
+      setTime(entry.time || '');
+    }
+  }, [entry, dateString, load]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setField(e.target.name as keyof Nutrition, e.target.value);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entry || !name.trim() || !date) return;
+
+    updateFood({
+      ...entry,
+      ...nutrition,
+      name: name.trim(),
+      meal,
+      time: time || undefined,
+      portion,
+      per100g,
+      micronutrients: scaleMicronutrients(entry.micronutrients, entry.portion || defaultPortion, portion),
+    }, date);
+    onClose();
+  };
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent onClose={onClose}>
+        <DialogHeader>
+          <DialogTitle>{t('log.edit.food_title')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="editFoodName">{t('log.food_name')}</Label>
+            <Input id="editFoodName" type="text" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div>
+            <Label>{t('log.portion.label')}</Label>
+            <PortionFields portion={portion} onChange={setPortion} t={t} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="editFoodCalories">{t('log.calories')}</Label>
+              <Input id="editFoodCalories" name="calories" type="number" value={fields.calories} onChange={handleChange} required />
+            </div>
+            <div>
+              <Label htmlFor="editFoodProtein">{`${t('log.protein')} (g)`}</Label>
+              <Input id="editFoodProtein" name="protein" type="number" value={fields.protein} onChange={handleChange} />
+            </div>
+            <div>
+              <Label htmlFor="editFoodCarbs">{`${t('log.carbs')} (g)`}</Label>
+              <Input id="editFoodCarbs" name="carbs" type="number" value={fields.carbs} onChange={handleChange} />
+            </div>
+            <div>
+              <Label htmlFor="editFoodFat">{`${t('log.fat')} (g)`}</Label>
+              <Input id="editFoodFat" name="fat" type="number" value={fields.fat} onChange={handleChange} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="editFoodMeal">{t('log.meal.label')}</Label>
+            <Select id="editFoodMeal" value={meal} onChange={(e) => setMeal(e.target.value as FoodEntry['meal'])}>
+              <option value="breakfast">{t('log.meal.breakfast')}</option>
+              <option value="lunch">{t('log.meal.lunch')}</option>
+              <option value="dinner">{t('log.meal.dinner')}</option>
+              <option value="snack">{t('log.meal.snack')}</option>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="editFoodDate">{t('log.edit.date')}</Label>
+              <Input id="editFoodDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="editFoodTime">{t('log.edit.eaten_at')}</Label>
+              <Input id="editFoodTime" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose>
+              <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                {t('general.cancel')}
+              </Button>
+            </DialogClose>
+            <Button type="submit">{t('general.save')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditFoodDialog;
@@ -1,8 +1,16 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { FoodEntry } from '../../types';
 import { useTranslation } from '../../hooks/useTranslation';
 import { useAppState } from '../../hooks/useAppState';
-import { TrashIcon } from '../Icons';
+import { BookmarkIcon, PencilIcon, TrashIcon } from '../Icons';
+import { findCustomFoodByName } from '../../utils/customFoods';
+import { formatPortion } from '../../utils/portions';
+import { addDaysToKey, formatTimeOfDay } from '../../utils/date';
+import { Button } from '../ui';
+import EditFoodDialog from './EditFoodDialog';
+import CopyFoodsDialog, { CopyMode } from './CopyFoodsDialog';
+
+const MEALS: FoodEntry['meal'][] = ['breakfast', 'lunch', 'dinner', 'snack'];
 
 interface FoodLogProps {
   entries: FoodEntry[];
@@ -10,43 +18,177 @@ interface FoodLogProps {
 }
 
 const FoodLog: React.FC<FoodLogProps> = ({ entries, onDelete }) => {
-  const { appState } = useAppState();
-  const { t } = useTranslation(appState.language);
+  const { appState, addCustomFood, copyFoods, removeFoods, dateString } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const [editingEntry, setEditingEntry] = useState<FoodEntry | null>(null);
+  const [copying, setCopying] = useState<{ entries: FoodEntry[]; mode: CopyMode } | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
-  const totalCalories = entries.reduce((sum, entry) => sum + entry.calories, 0);
+  useEffect(() => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  }, [dateString]);
+
+  const yesterdayFood: FoodEntry[] = appState.logs[addDaysToKey(dateString, -1)]?.food || [];
+  const yesterdayMeals = MEALS.filter(meal => yesterdayFood.some(entry => entry.meal === meal));
+  const selectedEntries = entries.filter(entry => selectedIds.has(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
 
-  if (entries.length === 0) {
-    return <p className="text-gray-500 text-center py-8">{t('log.no_food')}</p>;
-  }
+  const handleBulkDelete = () => {
+    removeFoods(selectedEntries.map(entry => entry.id));
+    exitSelection();
+  };
+
+  const handleCopyDone = () => {
+    setCopying(null);
+    exitSelection();
+  };
+
+  const handleSaveToLibrary = (entry: FoodEntry) => {
+    const { name, calories, protein, carbs, fat, portion, per100g, micronutrients } = entry;
+    addCustomFood({ name, calories, protein, carbs, fat, portion, per100g, micronutrients });
+  };
+
+  const totalCalories = entries.reduce((sum, entry) => sum + entry.calories, 0);
 
   return (
     <div className="space-y-4">
-      <div className="p-4 bg-gray-800/50 rounded-xl">
-        <h4 className="font-semibold text-white text-lg">{t('log.summary')}</h4>
-        <p className="text-gray-300">{t('log.total_food_calories')}: <span className="font-bold text-blue-400">{totalCalories.toLocaleString()} {t('dashboard.kcal')}</span></p>
-      </div>
-      <ul className="space-y-3">
-        {entries.map((entry) => (
-          <li key={entry.id} className="flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80 hover:shadow-lg">
-            <div className="flex-grow">
-              <p className="font-bold text-white capitalize">{entry.name}</p>
-              <p className="text-sm text-gray-400 capitalize">{t(`log.meal.${entry.meal}`)}</p>
-              <div className="text-xs text-gray-500 mt-1 flex space-x-2">
-                  <span>P: {entry.protein}g</span>
-                  <span>C: {entry.carbs}g</span>
-                  <span>F: {entry.fat}g</span>
+      {yesterdayMeals.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {yesterdayMeals.map(meal => (
+            <Button
+              key={meal}
+              size="sm"
+              onClick={() => copyFoods(yesterdayFood.filter(entry => entry.meal === meal), dateString)}
+              className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white"
+            >
+              {t('log.copy.from_yesterday', { meal: t(`log.meal.${meal}`) })}
+            </Button>
+          ))}
+        </div>
+      )}
+      {entries.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">{t('log.no_food')}</p>
+      ) : (
+        <>
+          <div className="p-4 bg-gray-800/50 rounded-xl space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <h4 className="font-semibold text-white text-lg">{t('log.summary')}</h4>
+                <p className="text-gray-300">{t('log.total_food_calories')}: <span className="font-bold text-blue-400">{totalCalories.toLocaleString()} {t('dashboard.kcal')}</span></p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button size="sm" onClick={() => setCopying({ entries, mode: 'copy' })} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                  {t('log.copy.repeat_day')}
+                </Button>
+                <Button size="sm" onClick={() => isSelecting ? exitSelection() : setIsSelecting(true)} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                  {isSelecting ? t('general.cancel') : t('log.copy.select')}
+                </Button>
               </div>
             </div>
-            <div className="text-right flex-shrink-0 pr-3">
-              <p className="font-bold text-lg text-blue-400">{entry.calories.toLocaleString()}</p>
-              <p className="text-xs text-gray-400">{t('dashboard.kcal')}</p>
+            <ul className="text-sm text-gray-400 space-y-1">
+              {MEALS.filter(meal => entries.some(entry => entry.meal === meal)).map(meal => {
+                const mealEntries = entries.filter(entry => entry.meal === meal);
+                return (
+                  <li key={meal} className="flex items-center justify-between">
+                    <span>{t(`log.meal.${meal}`)} · {mealEntries.reduce((sum, entry) => sum + entry.calories, 0).toLocaleString()} {t('dashboard.kcal')}</span>
+                    <button type="button" onClick={() => setCopying({ entries: mealEntries, mode: 'copy' })} className="text-xs text-gray-400 hover:text-white underline">
+                      {t('log.copy.copy_meal')}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+          {isSelecting && (
+            <div className="flex flex-wrap items-center gap-2 p-3 bg-blue-900/30 border border-blue-500/30 rounded-xl">
+              <span className="text-sm text-gray-300 flex-grow">{t('log.copy.selected', { count: selectedEntries.length })}</span>
+              <Button size="sm" onClick={() => setSelectedIds(new Set(selectedEntries.length === entries.length ? [] : entries.map(entry => entry.id)))} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                {selectedEntries.length === entries.length ? t('log.copy.select_none') : t('log.copy.select_all')}
+              </Button>
+              <Button size="sm" disabled={selectedEntries.length === 0} onClick={() => setCopying({ entries: selectedEntries, mode: 'copy' })}>{t('log.copy.copy')}</Button>
+              <Button size="sm" disabled={selectedEntries.length === 0} onClick={() => setCopying({ entries: selectedEntries, mode: 'move' })}>{t('log.copy.move')}</Button>
+              <Button size="sm" disabled={selectedEntries.length === 0} onClick={handleBulkDelete} className="bg-red-600 hover:bg-red-700">{t('general.delete')}</Button>
             </div>
-            <button onClick={() => onDelete(entry.id)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
-              <TrashIcon className="w-5 h-5" />
-            </button>
-          </li>
-        ))}
-      </ul>
+          )}
+          <ul className="space-y-3">
+            {entries.map((entry) => {
+              const isSaved = !!findCustomFoodByName(appState.customFoods, entry.name);
+              return (
+                <li
+                  key={entry.id}
+                  onClick={isSelecting ? () => toggleSelected(entry.id) : undefined}
+                  className={`flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80 hover:shadow-lg ${isSelecting ? 'cursor-pointer' : ''} ${selectedIds.has(entry.id) ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  {isSelecting && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mr-3 w-4 h-4 accent-blue-500"
+                    />
+                  )}
+                  <div className="flex-grow">
+                    <p className="font-bold text-white capitalize">{entry.name}</p>
+                    <p className="text-sm text-gray-400 capitalize">
+                      {t(`log.meal.${entry.meal}`)}
+                      {entry.time && <span> · {formatTimeOfDay(entry.time, locale)}</span>}
+                      {entry.portion && <span className="normal-case"> · {formatPortion(entry.portion, t(`log.portion.units.${entry.portion.unit}`))}</span>}
+                    </p>
+                    <div className="text-xs text-gray-500 mt-1 flex space-x-2">
+                        <span>P: {entry.protein}g</span>
+                        <span>C: {entry.carbs}g</span>
+                        <span>F: {entry.fat}g</span>
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0 pr-3">
+                    <p className="font-bold text-lg text-blue-400">{entry.calories.toLocaleString()}</p>
+                    <p className="text-xs text-gray-400">{t('dashboard.kcal')}</p>
+                  </div>
+                  {!isSelecting && (
+                    <>
+                      <button onClick={() => setEditingEntry(entry)} className="text-gray-600 hover:text-blue-400 transition-colors opacity-50 hover:opacity-100 mr-3">
+                        <PencilIcon className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleSaveToLibrary(entry)}
+                        disabled={isSaved}
+                        title={isSaved ? t('log.my_foods.saved') : t('log.my_foods.save')}
+                        className={`transition-colors mr-3 ${isSaved ? 'text-blue-400 opacity-80' : 'text-gray-600 hover:text-blue-400 opacity-50 hover:opacity-100'}`}
+                      >
+                        <BookmarkIcon className="w-5 h-5" />
+                      </button>
+                      <button onClick={() => onDelete(entry.id)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+      <EditFoodDialog entry={editingEntry} onClose={() => setEditingEntry(null)} />
+      <CopyFoodsDialog entries={copying?.entries || null} mode={copying?.mode || 'copy'} onDone={handleCopyDone} onClose={() => setCopying(null)} />
     </div>
   );
 };
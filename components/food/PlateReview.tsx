@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { DetectedFoodItem, FoodEntry, Micronutrients, Nutrition, Portion } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Input, Select } from '../ui';
+import { portionFromAnalysis, scaleNutrition, toPer100g } from '../../utils/portions';
+import { scaleMicronutrients } from '../../utils/nutrients';
+import PortionFields from './PortionFields';
+
+interface ReviewItem {
+  key: string;
+  selected: boolean;
+  name: string;
+  nutrition: Nutrition;
+  portion: Portion;
+  per100g?: Nutrition;
+  micronutrients?: Micronutrients;
+  estimatedPortion: Portion; // the portion the micronutrients were estimated for
+  confidence: number;
+}
+
+interface PlateReviewProps {
+  items: DetectedFoodItem[];
+  onConfirm: (foods: Omit<FoodEntry, 'id'>[]) => void;
+  onCancel: () => void;
+}
+
+const LOW_CONFIDENCE = 0.5;
+
+const toReviewItem = (item: DetectedFoodItem, index: number): ReviewItem => {
+  const portion = portionFromAnalysis(item);
+  const nutrition = { calories: item.calories, protein: item.protein, carbs: item.carbs, fat: item.fat };
+  return {
+    key: `${index}-${item.foodName}`,
+    selected: true,
+    name: item.foodName,
+    nutrition,
+    portion,
+    per100g: toPer100g(nutrition, portion),
+    micronutrients: item.micronutrients,
+    estimatedPortion: portion,
+    confidence: item.confidence,
+  };
+};
+
+const getMealForTime = (date: Date): FoodEntry['meal'] => {
+  const hour = date.getHours();
+  if (hour < 11) return 'breakfast';
+  if (hour < 16) return 'lunch';
+  if (hour < 21) return 'dinner';
+  return 'snack';
+};
+
+const PlateReview: React.FC<PlateReviewProps> = ({ items, onConfirm, onCancel }) => {
+  const { appState } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const [meal, setMeal] = useState<FoodEntry['meal']>(() => getMealForTime(new Date()));
+
+  useEffect(() => {
+    setReviewItems(items.map(toReviewItem));
+  }, [items]);
+
+  const updateItem = (key: string, update: (item: ReviewItem) => ReviewItem) => {
+    setReviewItems(prev => prev.map(item => item.key === key ? update(item) : item));
+  };
+
+  const handlePortionChange = (key: string, portion: Portion) => {
+    updateItem(key, item => ({
+      ...item,
+      portion,
+      nutrition: item.per100g ? scaleNutrition(item.per100g, portion) : item.nutrition,
+    }));
+  };
+
+  const handleNutritionChange = (key: string, field: keyof Nutrition, value: string) => {
+    updateItem(key, item => {
+      const nutrition = { ...item.nutrition, [field]: parseInt(value, 10) || 0 };
+      return { ...item, nutrition, per100g: toPer100g(nutrition, item.portion) };
+    });
+  };
+
+  const selectedItems = reviewItems.filter(item => item.selected);
+  const totalCalories = selectedItems.reduce((sum, item) => sum + item.nutrition.calories, 0);
+
+  const handleConfirm = () => {
+    onConfirm(selectedItems.map(item => ({
+      name: item.name.trim(),
+      ...item.nutrition,
+      meal,
+      portion: item.portion,
+      per100g: item.per100g,
+      micronutrients: scaleMicronutrients(item.micronutrients, item.estimatedPortion, item.portion),
+    })));
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">{t('camera.review.desc')}</p>
+      <ul className="space-y-3 max-h-[55vh] overflow-y-auto pr-1">
+        {reviewItems.map(item => (
+          <li key={item.key} className={`p-3 rounded-xl space-y-3 transition-opacity ${item.selected ? 'bg-gray-800/60' : 'bg-gray-800/30 opacity-50'}`}>
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={item.selected}
+                onChange={(e) => updateItem(item.key, it => ({ ...it, selected: e.target.checked }))}
+                aria-label={item.name}
+              />
+              <Input
+                type="text"
+                value={item.name}
+                onChange={(e) => updateItem(item.key, it => ({ ...it, name: e.target.value }))}
+                className="flex-1"
+              />
+              <span className={`text-xs font-medium flex-shrink-0 ${item.confidence < LOW_CONFIDENCE ? 'text-yellow-400' : 'text-gray-400'}`}>
+                {t('camera.review.confidence', { percent: Math.round(item.confidence * 100) })}
+              </span>
+            </div>
+            {item.selected && (
+              <>
+                <PortionFields portion={item.portion} onChange={(portion) => handlePortionChange(item.key, portion)} t={t} />
+                <div className="grid grid-cols-4 gap-2">
+                  {(['calories', 'protein', 'carbs', 'fat'] as (keyof Nutrition)[]).map(field => (
+                    <label key={field} className="block">
+                      <span className="block text-xs text-gray-500 mb-1 truncate">{t(`log.${field}`)}</span>
+                      <Input
+                        type="number"
+                        value={item.nutrition[field]}
+                        onChange={(e) => handleNutritionChange(item.key, field, e.target.value)}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Select value={meal} onChange={(e) => setMeal(e.target.value as FoodEntry['meal'])}>
+        <option value="breakfast">{t('log.meal.breakfast')}</option>
+        <option value="lunch">{t('log.meal.lunch')}</option>
+        <option value="dinner">{t('log.meal.dinner')}</option>
+        <option value="snack">{t('log.meal.snack')}</option>
+      </Select>
+
+      <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+        <Button type="button" onClick={onCancel} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+          {t('general.cancel')}
+        </Button>
+        <Button type="button" onClick={handleConfirm} disabled={selectedItems.length === 0}>
+          {t('camera.review.add_items', { count: selectedItems.length, calories: totalCalories })}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PlateReview;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Portion, ServingUnit } from '../../types';
+import { Input, Select } from '../ui';
+import { changePortionUnit, isMassUnit, servingUnits } from '../../utils/portions';
+
+interface PortionFieldsProps {
+  portion: Portion;
+  onChange: (portion: Portion) => void;
+  t: (key: string, options?: Record<string, string | number>) => string;
+}
+
+const PortionFields: React.FC<PortionFieldsProps> = ({ portion, onChange, t }) => {
+  const showGrams = !isMassUnit(portion.unit);
+
+  return (
+    <div className={`grid gap-4 ${showGrams ? 'grid-cols-3' : 'grid-cols-2'}`}>
+      <Input
+        type="number"
+        step="any"
+        min="0"
+        aria-label={t('log.portion.quantity')}
+        placeholder={t('log.portion.quantity')}
+        value={portion.quantity || ''}
+        onChange={(e) => onChange({ ...portion, quantity: parseFloat(e.target.value) || 0 })}
+      />
+      <Select
+        aria-label={t('log.portion.unit')}
+        value={portion.unit}
+        onChange={(e) => onChange(changePortionUnit(portion, e.target.value as ServingUnit))}
+      >
+        {servingUnits.map(unit => (
+          <option key={unit} value={unit}>{t(`log.portion.units.${unit}`)}</option>
+        ))}
+      </Select>
+      {showGrams && (
+        <Input
+          type="number"
+          step="any"
+          min="0"
+          aria-label={t('log.portion.grams_per_unit', { unit: t(`log.portion.units.${portion.unit}`) })}
+          title={t('log.portion.grams_per_unit', { unit: t(`log.portion.units.${portion.unit}`) })}
+          placeholder={t('log.portion.grams_per_unit', { unit: t(`log.portion.units.${portion.unit}`) })}
+          value={portion.gramsPerUnit || ''}
+          onChange={(e) => onChange({ ...portion, gramsPerUnit: parseFloat(e.target.value) || 0 })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PortionFields;
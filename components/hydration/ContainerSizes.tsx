@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Input, Label } from '../ui';
+
+const MAX_CONTAINERS = 6;
+
+const ContainerSizes: React.FC = () => {
+  const { appState, setWaterContainers } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [size, setSize] = useState('');
+  const containers: number[] = appState.waterContainers;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(size, 10);
+    if (!amount || amount <= 0 || containers.includes(amount)) return;
+    setWaterContainers([...containers, amount].sort((a, b) => a - b));
+    setSize('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="flex flex-wrap gap-2">
+        {containers.map(container => (
+          <li key={container} className="flex items-center text-sm bg-gray-800/50 rounded-full pl-3 pr-1 py-1 text-gray-200">
+            {container} ml
+            <button
+              type="button"
+              onClick={() => setWaterContainers(containers.filter(c => c !== container))}
+              disabled={containers.length === 1}
+              title={t('general.delete')}
+              className="ml-1 px-1.5 text-gray-500 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-500"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+      {containers.length < MAX_CONTAINERS && (
+        <form onSubmit={handleAdd} className="flex items-end gap-2">
+          <div className="flex-grow">
+            <Label htmlFor="containerSize">{t('settings.hydration.container_size')}</Label>
+            <Input id="containerSize" type="number" min="1" value={size} onChange={(e) => setSize(e.target.value)} placeholder="330" />
+          </div>
+          <Button type="submit">{t('settings.hydration.add_container')}</Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ContainerSizes;
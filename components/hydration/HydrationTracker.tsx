@@ -0,0 +1,71 @@
+import React from 'react';
+import { DailyLog } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { PlusIcon } from '../Icons';
+import { Button } from '../ui';
+import { formatTimeOfDay } from '../../utils/date';
+import { getFluidIntake, getHydrationTarget } from '../../utils/hydration';
+
+const RING_RADIUS = 52;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+interface HydrationTrackerProps {
+  log: DailyLog;
+}
+
+const HydrationTracker: React.FC<HydrationTrackerProps> = ({ log }) => {
+  const { appState, addWater, removeWater } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+
+  const intake = getFluidIntake(log);
+  const exerciseMinutes = log.exercise.reduce((sum, entry) => sum + entry.duration, 0);
+  const target = getHydrationTarget(appState.userProfile.weight, exerciseMinutes);
+  const progress = Math.min(1, intake.total / target);
+  const water = log.water || [];
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <div className="relative w-32 h-32 flex-shrink-0">
+        <svg viewBox="0 0 120 120" className="w-full h-full -rotate-90">
+          <circle cx="60" cy="60" r={RING_RADIUS} fill="none" stroke="#374151" strokeWidth="10" />
+          <circle
+            cx="60" cy="60" r={RING_RADIUS} fill="none" stroke="#22d3ee" strokeWidth="10" strokeLinecap="round"
+            strokeDasharray={RING_CIRCUMFERENCE} strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+            className="transition-all duration-500"
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          <span className="text-xl font-bold text-cyan-400">{Math.round(progress * 100)}%</span>
+          <span className="text-xs text-gray-400">{intake.total.toLocaleString()} / {target.toLocaleString()} ml</span>
+        </div>
+      </div>
+
+      <div className="flex-grow w-full space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {appState.waterContainers.map((size: number) => (
+            <Button key={size} size="sm" onClick={() => addWater(size)} className="bg-cyan-700 hover:bg-cyan-600">
+              <PlusIcon className="w-4 h-4 mr-1" />{size} ml
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400">
+          {t('dashboard.hydration.breakdown', { water: intake.water.toLocaleString(), drinks: intake.drinks.toLocaleString() })}
+          {exerciseMinutes > 0 && ` · ${t('dashboard.hydration.exercise_bonus', { minutes: exerciseMinutes })}`}
+        </p>
+        {water.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {water.map(entry => (
+              <li key={entry.id} className="flex items-center text-xs bg-gray-800/50 rounded-full pl-3 pr-1 py-1 text-gray-300">
+                {entry.amount} ml{entry.time && <span className="text-gray-500 ml-1">{formatTimeOfDay(entry.time, locale)}</span>}
+                <button type="button" onClick={() => removeWater(entry.id)} title={t('general.delete')} className="ml-1 px-1.5 text-gray-500 hover:text-red-500">×</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HydrationTracker;
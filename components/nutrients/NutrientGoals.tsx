@@ -0,0 +1,58 @@
+import React from 'react';
+import { Micronutrient, NutrientGoal } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Input, Select } from '../ui';
+import { DEFAULT_NUTRIENT_GOALS, MICRONUTRIENTS } from '../../utils/nutrients';
+
+type GoalKind = NutrientGoal['kind'] | 'off';
+
+const NutrientGoals: React.FC = () => {
+  const { appState, setNutrientGoal } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const goals: Partial<Record<Micronutrient, NutrientGoal>> = appState.nutrientGoals;
+
+  const handleKindChange = (key: Micronutrient, kind: GoalKind) => {
+    if (kind === 'off') {
+      setNutrientGoal(key, null);
+      return;
+    }
+    const amount = goals[key]?.amount ?? DEFAULT_NUTRIENT_GOALS[key].amount;
+    setNutrientGoal(key, { amount, kind });
+  };
+
+  const handleAmountChange = (key: Micronutrient, value: string) => {
+    const goal = goals[key];
+    const amount = parseFloat(value);
+    if (goal && amount >= 0) setNutrientGoal(key, { ...goal, amount });
+  };
+
+  return (
+    <ul className="space-y-2">
+      {MICRONUTRIENTS.map(({ key, unit }) => {
+        const goal = goals[key];
+        return (
+          <li key={key} className="grid grid-cols-3 gap-2 items-center">
+            <span className="text-sm text-gray-300">{t(`nutrients.${key}`)} ({unit})</span>
+            <Select value={goal?.kind || 'off'} onChange={(e) => handleKindChange(key, e.target.value as GoalKind)}>
+              <option value="off">{t('settings.nutrients.off')}</option>
+              <option value="limit">{t('settings.nutrients.limit')}</option>
+              <option value="target">{t('settings.nutrients.target')}</option>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={goal?.amount ?? ''}
+              disabled={!goal}
+              onChange={(e) => handleAmountChange(key, e.target.value)}
+              aria-label={t(`nutrients.${key}`)}
+            />
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default NutrientGoals;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { DailyLog, Micronutrient, NutrientGoal } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { MICRONUTRIENTS, sumMicronutrients } from '../../utils/nutrients';
+
+interface NutrientPanelProps {
+  log: DailyLog;
+}
+
+const formatAmount = (amount: number): string => amount >= 100 ? Math.round(amount).toLocaleString() : String(Math.round(amount * 10) / 10);
+
+const NutrientPanel: React.FC<NutrientPanelProps> = ({ log }) => {
+  const { appState } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const goals: Partial<Record<Micronutrient, NutrientGoal>> = appState.nutrientGoals;
+
+  const { totals, counted } = sumMicronutrients(log.food);
+  const tracked = MICRONUTRIENTS.filter(({ key }) => goals[key]);
+
+  if (tracked.length === 0) {
+    return <p className="text-gray-500 text-center py-4">{t('dashboard.nutrients.none_tracked')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {tracked.map(({ key, unit }) => {
+        const goal = goals[key] as NutrientGoal;
+        const amount = totals[key] || 0;
+        const ratio = goal.amount > 0 ? amount / goal.amount : 0;
+        const color = goal.kind === 'limit'
+          ? (ratio > 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-yellow-500' : 'bg-cyan-500')
+          : (ratio >= 1 ? 'bg-green-500' : 'bg-cyan-500');
+        return (
+          <div key={key}>
+            <div className="flex justify-between mb-1">
+              <span className="text-sm font-medium text-gray-300">
+                {t(`nutrients.${key}`)}
+                <span className="text-xs text-gray-500 ml-2">{t(`dashboard.nutrients.${goal.kind}`)}</span>
+              </span>
+              <span className={`text-sm font-medium ${goal.kind === 'limit' && ratio > 1 ? 'text-red-400' : 'text-gray-400'}`}>
+                {totals[key] === undefined ? '—' : formatAmount(amount)}{unit} / {goal.amount.toLocaleString()}{unit}
+              </span>
+            </div>
+            <div className="w-full bg-gray-700 rounded-full h-2.5">
+              <div className={`${color} h-2.5 rounded-full`} style={{ width: `${Math.min(100, ratio * 100)}%` }}></div>
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">{t('dashboard.nutrients.coverage', { counted, total: log.food.length })}</p>
+    </div>
+  );
+};
+
+export default NutrientPanel;
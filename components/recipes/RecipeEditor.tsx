@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { CustomFood, Portion, Recipe, RecipeIngredient } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useAbortSignal } from '../../hooks/useAbortSignal';
+import { SparklesIcon, TrashIcon } from '../Icons';
+import { Button, Input, Label, DialogFooter, DialogClose } from '../ui';
+import { getAiFoodNutrition } from '../../services/aiService';
+import { isAiConfigured } from '../../services/aiProvider';
+import { AiError, getAiErrorMessage } from '../../services/aiErrors';
+import { searchCustomFoods } from '../../utils/customFoods';
+import { scaleMicronutrients } from '../../utils/nutrients';
+import { defaultPortion, portionFromAnalysis, toPer100g } from '../../utils/portions';
+import { getIngredientNutrition, getRecipeNutrition } from '../../utils/recipes';
+import PortionFields from '../food/PortionFields';
+
+interface RecipeEditorProps {
+  recipe: Recipe | null; // null to create a new one
+  onSave: (recipe: Omit<Recipe, 'id'>) => void;
+}
+
+const newIngredientId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const ingredientFromCustomFood = (food: CustomFood): RecipeIngredient | null => {
+  const portion = food.portion || defaultPortion;
+  const per100g = food.per100g || toPer100g(food, portion);
+  if (!per100g) return null;
+  return { id: newIngredientId(), name: food.name, portion, per100g, micronutrients: food.micronutrients, customFoodId: food.id };
+};
+
+const RecipeEditor: React.FC<RecipeEditorProps> = ({ recipe, onSave }) => {
+  const { appState } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const nextSignal = useAbortSignal();
+  const customFoods: CustomFood[] = appState.customFoods;
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState('1');
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(recipe?.name || '');
+    setServings(String(recipe?.servings || 1));
+    setIngredients(recipe?.ingredients || []);
+    setQuery('');
+    setError(null);
+  }, [recipe]);
+
+  const suggestions = searchCustomFoods(customFoods, query);
+  const draft: Omit<Recipe, 'id'> = { name: name.trim(), servings: parseFloat(servings) || 1, ingredients };
+  const { perServing } = getRecipeNutrition({ ...draft, id: '' }, customFoods);
+
+  const addIngredient = (ingredient: RecipeIngredient | null) => {
+    if (!ingredient) return;
+    setIngredients(prev => [...prev, ingredient]);
+    setQuery('');
+  };
+
+  const handleLookup = async () => {
+    if (!query.trim() || !isAiConfigured(appState)) return;
+    setIsLookingUp(true);
+    setError(null);
+    const signal = nextSignal();
+    try {
+      const analysis = await getAiFoodNutrition(query.trim(), appState, appState.language, signal);
+      const portion = portionFromAnalysis(analysis);
+      const per100g = toPer100g(analysis, portion);
+      if (!per100g) throw new Error('Estimate has no portion weight');
+      addIngredient({ id: newIngredientId(), name: analysis.foodName, portion, per100g, micronutrients: analysis.micronutrients });
+    } catch (err) {
+      if (signal.aborted) return;
+      // AI failures are already logged by the service; an estimate without a weight can't be scaled
+      if (err instanceof AiError) {
+        setError(getAiErrorMessage(err, appState, t));
+      } else {
+        console.error("Could not use ingredient estimate", err);
+        setError(t('log.recipes.lookup_error'));
+      }
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handlePortionChange = (id: string, portion: Portion) => {
+    setIngredients(prev => prev.map(ingredient => ingredient.id === id
+      ? { ...ingredient, portion, micronutrients: scaleMicronutrients(ingredient.micronutrients, ingredient.portion, portion) }
+      : ingredient));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name || ingredients.length === 0) return;
+    onSave(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <Label htmlFor="recipeName">{t('log.recipes.name')}</Label>
+          <Input id="recipeName" type="text" value={name} onChange={(e) => setName(e.target.value)} required />
+        </div>
+        <div>
+          <Label htmlFor="recipeServings">{t('log.recipes.servings')}</Label>
+          <Input id="recipeServings" type="number" min="0.5" step="any" value={servings} onChange={(e) => setServings(e.target.value)} required />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t('log.recipes.ingredients')}</Label>
+        {ingredients.length === 0 && <p className="text-sm text-gray-500">{t('log.recipes.no_ingredients')}</p>}
+        <ul className="space-y-2 max-h-[40vh] overflow-y-auto pr-1">
+          {ingredients.map(ingredient => (
+            <li key={ingredient.id} className="p-3 bg-gray-800/50 rounded-xl space-y-2">
+              <div className="flex items-center gap-2">
+                <p className="flex-grow font-semibold text-white capitalize">{ingredient.name}</p>
+                <span className="text-sm text-blue-400">{getIngredientNutrition(ingredient, customFoods).calories} {t('dashboard.kcal')}</span>
+                <button type="button" onClick={() => setIngredients(prev => prev.filter(i => i.id !== ingredient.id))} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+              <PortionFields portion={ingredient.portion} onChange={(portion) => handlePortionChange(ingredient.id, portion)} t={t} />
+            </li>
+          ))}
+        </ul>
+        <div className="relative flex gap-2">
+          <Input
+            type="text"
+            placeholder={t('log.recipes.add_placeholder')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="flex-1"
+          />
+          <Button type="button" onClick={handleLookup} disabled={!query.trim() || !isAiConfigured(appState) || isLookingUp} title={t('log.recipes.ai_lookup')} className="flex-shrink-0">
+            <SparklesIcon className="w-5 h-5" />
+          </Button>
+          {suggestions.length > 0 && (
+            <ul className="absolute z-10 top-full left-0 right-12 mt-1 bg-gray-800 border border-white/10 rounded-lg shadow-lg overflow-hidden">
+              {suggestions.map(food => (
+                <li key={food.id}>
+                  <button type="button" onClick={() => addIngredient(ingredientFromCustomFood(food))} className="w-full text-left px-3 py-2 text-sm text-gray-200 hover:bg-gray-700">
+                    {food.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      <div className="p-3 bg-gray-800/50 rounded-xl text-sm text-gray-300">
+        <span className="font-semibold text-white">{t('log.recipes.per_serving')}: </span>
+        {perServing.calories} {t('dashboard.kcal')} · P {perServing.protein}g · C {perServing.carbs}g · F {perServing.fat}g
+      </div>
+
+      <DialogFooter>
+        <DialogClose>
+          <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+            {t('general.cancel')}
+          </Button>
+        </DialogClose>
+        <Button type="submit" disabled={!draft.name || ingredients.length === 0}>{t('general.save')}</Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+export default RecipeEditor;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { FoodEntry, Recipe } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { PencilIcon, PlusIcon, TrashIcon } from '../Icons';
+import { Button, Input, Label, Select, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogClose } from '../ui';
+import { getRecipeNutrition, recipeToFood } from '../../utils/recipes';
+import RecipeEditor from './RecipeEditor';
+
+const RecipeLibrary: React.FC = () => {
+  const { appState, addRecipe, updateRecipe, removeRecipe, addFood } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [loggingRecipe, setLoggingRecipe] = useState<Recipe | null>(null);
+  const [servings, setServings] = useState('1');
+  const [meal, setMeal] = useState<FoodEntry['meal']>('dinner');
+
+  const recipes: Recipe[] = [...appState.recipes].sort((a, b) => a.name.localeCompare(b.name));
+
+  const openEditor = (recipe: Recipe | null) => {
+    setEditingRecipe(recipe);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = (recipe: Omit<Recipe, 'id'>) => {
+    if (editingRecipe) {
+      updateRecipe({ ...recipe, id: editingRecipe.id });
+    } else {
+      addRecipe(recipe);
+    }
+    setIsEditorOpen(false);
+  };
+
+  const openLog = (recipe: Recipe) => {
+    setLoggingRecipe(recipe);
+    setServings('1');
+  };
+
+  const handleLog = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(servings);
+    if (!loggingRecipe || !amount || amount <= 0) return;
+    addFood({ ...recipeToFood(loggingRecipe, amount, appState.customFoods), meal });
+    setLoggingRecipe(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button type="button" onClick={() => openEditor(null)} className="w-full">
+        <PlusIcon className="w-5 h-5 mr-2" />{t('log.recipes.create')}
+      </Button>
+
+      {recipes.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">{t('log.recipes.empty')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {recipes.map(recipe => {
+            const { perServing } = getRecipeNutrition(recipe, appState.customFoods);
+            return (
+              <li key={recipe.id} className="flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80">
+                <button type="button" onClick={() => openLog(recipe)} className="flex-grow text-left">
+                  <p className="font-bold text-white capitalize">{recipe.name}</p>
+                  <p className="text-sm text-gray-400">
+                    {t('log.recipes.summary', { servings: recipe.servings, count: recipe.ingredients.length })}
+                  </p>
+                  <div className="text-xs text-gray-500 mt-1 flex space-x-2">
+                    <span>{perServing.calories} {t('dashboard.kcal')}</span>
+                    <span>P: {perServing.protein}g</span>
+                    <span>C: {perServing.carbs}g</span>
+                    <span>F: {perServing.fat}g</span>
+                  </div>
+                </button>
+                <button type="button" onClick={() => openEditor(recipe)} className="text-gray-600 hover:text-blue-400 transition-colors opacity-50 hover:opacity-100 mr-3">
+                  <PencilIcon className="w-5 h-5" />
+                </button>
+                <button type="button" onClick={() => removeRecipe(recipe.id)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRecipe ? t('log.recipes.edit') : t('log.recipes.create')}</DialogTitle>
+          </DialogHeader>
+          <RecipeEditor recipe={editingRecipe} onSave={handleSave} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={loggingRecipe !== null} onOpenChange={(open) => !open && setLoggingRecipe(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('log.recipes.log_title', { name: loggingRecipe?.name || '' })}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLog} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="recipeLogServings">{t('log.recipes.servings')}</Label>
+                <Input id="recipeLogServings" type="number" min="0.25" step="any" value={servings} onChange={(e) => setServings(e.target.value)} required />
+              </div>
+              <div>
+                <Label htmlFor="recipeLogMeal">{t('log.meal.label')}</Label>
+                <Select id="recipeLogMeal" value={meal} onChange={(e) => setMeal(e.target.value as FoodEntry['meal'])}>
+                  <option value="breakfast">{t('log.meal.breakfast')}</option>
+                  <option value="lunch">{t('log.meal.lunch')}</option>
+                  <option value="dinner">{t('log.meal.dinner')}</option>
+                  <option value="snack">{t('log.meal.snack')}</option>
+                </Select>
+              </div>
+            </div>
+            {loggingRecipe && (
+              <p className="text-sm text-gray-400">
+                {recipeToFood(loggingRecipe, parseFloat(servings) || 0, appState.customFoods).calories} {t('dashboard.kcal')}
+              </p>
+            )}
+            <DialogFooter>
+              <DialogClose>
+                <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+                  {t('general.cancel')}
+                </Button>
+              </DialogClose>
+              <Button type="submit">{t('log.add_food')}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RecipeLibrary;
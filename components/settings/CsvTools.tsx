@@ -0,0 +1,153 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { DownloadIcon, UploadIcon } from '../Icons';
+import { Button, Input, Label, Select } from '../ui';
+import {
+  CSV_FIELDS, CsvColumnMapping, CsvDateFormat, CsvField, CsvImportKind,
+  exportExerciseCsv, exportFoodCsv, exportMeasurementsCsv, guessColumnMapping, mapCsvRows, parseCsv,
+} from '../../utils/csv';
+import { toDateKey } from '../../utils/date';
+
+const downloadCsv = (content: string, name: string) => {
+  // The BOM makes Excel read the file as UTF-8
+  const dataUri = 'data:text/csv;charset=utf-8,' + encodeURIComponent('\uFEFF' + content);
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', dataUri);
+  linkElement.setAttribute('download', `${name}-${toDateKey(new Date())}.csv`);
+  linkElement.click();
+};
+
+const CsvTools: React.FC = () => {
+  const { appState, importLogs } = useAppState();
+  const { t } = useTranslation(appState.language);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [kind, setKind] = useState<CsvImportKind>('food');
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('mdy');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const header = rows?.[0] || [];
+  const fields = CSV_FIELDS[kind];
+  const isMappingComplete = fields.every(({ field, required }) => !required || (mapping[field] ?? -1) >= 0);
+  const result = useMemo(
+    () => rows && isMappingComplete ? mapCsvRows(rows.slice(1), kind, mapping, dateFormat) : null,
+    [rows, kind, mapping, dateFormat, isMappingComplete]
+  );
+
+  const handleKindChange = (value: CsvImportKind) => {
+    setKind(value);
+    if (rows) setMapping(guessColumnMapping(rows[0], value));
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        const parsed = parseCsv(event.target?.result as string);
+        if (parsed.length < 2) {
+          alert(t('settings.csv.empty_file'));
+          return;
+        }
+        setRows(parsed);
+        setMapping(guessColumnMapping(parsed[0], kind));
+      };
+      reader.readAsText(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    if (!result || result.imported === 0) return;
+    importLogs(result.logs, result.measurements);
+    alert(t('settings.csv.import_success', { count: result.imported }));
+    setRows(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="font-semibold text-white">{t('settings.csv.export_title')}</p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="csvFrom">{t('settings.csv.from')}</Label>
+            <Input id="csvFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="csvTo">{t('settings.csv.to')}</Label>
+            <Input id="csvTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <Button onClick={() => downloadCsv(exportFoodCsv(appState.logs, from, to), 'food-log')}>
+            <DownloadIcon className="w-5 h-5 mr-2" />{t('settings.csv.export_food')}
+          </Button>
+          <Button onClick={() => downloadCsv(exportExerciseCsv(appState.logs, from, to), 'exercise-log')}>
+            <DownloadIcon className="w-5 h-5 mr-2" />{t('settings.csv.export_exercise')}
+          </Button>
+          <Button onClick={() => downloadCsv(exportMeasurementsCsv(appState.measurements, from, to), 'measurements')}>
+            <DownloadIcon className="w-5 h-5 mr-2" />{t('settings.csv.export_measurements')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-semibold text-white">{t('settings.csv.import_title')}</p>
+        <p className="text-sm text-gray-400">{t('settings.csv.import_desc')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <Select value={kind} onChange={(e) => handleKindChange(e.target.value as CsvImportKind)}>
+            <option value="food">{t('log.food')}</option>
+            <option value="exercise">{t('log.exercise')}</option>
+            <option value="weight">{t('settings.csv.weight')}</option>
+          </Select>
+          <Button onClick={() => fileRef.current?.click()} className="bg-gray-600 hover:bg-gray-700">
+            <UploadIcon className="w-5 h-5 mr-2" />{t('settings.csv.choose_file')}
+          </Button>
+        </div>
+        <input type="file" ref={fileRef} onChange={handleFile} accept=".csv,text/csv" className="hidden" />
+
+        {rows && (
+          <div className="p-3 bg-gray-800/50 rounded-xl space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {fields.map(({ field, required }) => (
+                <label key={field} className="block">
+                  <span className="block text-xs text-gray-500 mb-1">{t(`settings.csv.fields.${field}`)}{required ? ' *' : ''}</span>
+                  <Select
+                    value={mapping[field] ?? -1}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [field as CsvField]: Number(e.target.value) }))}
+                  >
+                    <option value={-1}>{t('settings.csv.not_mapped')}</option>
+                    {header.map((column, index) => (
+                      <option key={index} value={index}>{column || `#${index + 1}`}</option>
+                    ))}
+                  </Select>
+                </label>
+              ))}
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">{t('settings.csv.date_format')}</span>
+                <Select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as CsvDateFormat)}>
+                  <option value="mdy">MM/DD/YYYY</option>
+                  <option value="dmy">DD/MM/YYYY</option>
+                </Select>
+              </label>
+            </div>
+            {result && (
+              <p className="text-sm text-gray-400">
+                {t('settings.csv.preview', { count: result.imported, days: new Set([...Object.keys(result.logs), ...Object.keys(result.measurements)]).size, skipped: result.skipped })}
+              </p>
+            )}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={handleImport} disabled={!result || result.imported === 0}>{t('settings.csv.import')}</Button>
+              <Button onClick={() => setRows(null)} className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">{t('general.cancel')}</Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvTools;
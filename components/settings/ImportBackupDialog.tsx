@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { AppState } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Button, Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription, DialogClose } from '../ui';
+import { Backup, ImportMode, ImportPreview, previewImport } from '../../utils/backup';
+
+interface ImportBackupDialogProps {
+  backup: Backup | null;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS: (keyof Omit<ImportPreview, 'settingsReplaced'>)[] = [
+  'daysAdded', 'daysChanged', 'daysRemoved', 'entriesAdded', 'entriesUpdated', 'entriesRemoved', 'customFoodsAdded', 'measurementsAdded',
+];
+
+const ImportBackupDialog: React.FC<ImportBackupDialogProps> = ({ backup, onClose }) => {
+  const { appState, resolveImport, importData } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const preview = useMemo(() => {
+    if (!backup) return null;
+    const result: AppState = resolveImport(backup.state, mode);
+    return previewImport(appState, result, mode);
+  }, [backup, mode, appState, resolveImport]);
+
+  const handleConfirm = async () => {
+    if (!backup) return;
+    setIsImporting(true);
+    try {
+      await importData(backup.state, mode);
+      alert(t('settings.data_management.import_success'));
+      window.location.reload();
+    } catch (error) {
+      console.error("Import failed", error);
+      alert(t('settings.data_management.import_error'));
+      setIsImporting(false);
+    }
+  };
+
+  const modeButton = (value: ImportMode) => (
+    <button
+      type="button"
+      onClick={() => setMode(value)}
+      className={`w-full p-1.5 rounded-full text-sm font-semibold transition-all duration-300 ${mode === value ? 'bg-blue-600 text-white shadow-md' : 'text-gray-400 hover:bg-white/10'}`}
+    >
+      {t(`settings.data_management.mode.${value}`)}
+    </button>
+  );
+
+  return (
+    <Dialog open={backup !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent onClose={onClose}>
+        <DialogHeader>
+          <DialogTitle>{t('settings.data_management.preview_title')}</DialogTitle>
+          {backup?.exportedAt && (
+            <DialogDescription>
+              {t('settings.data_management.exported_at', { date: new Date(backup.exportedAt).toLocaleString(locale) })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex justify-center bg-white/5 rounded-full p-1 border border-white/10">
+            {modeButton('merge')}
+            {modeButton('replace')}
+          </div>
+          <p className="text-sm text-gray-400">{t(`settings.data_management.mode_desc.${mode}`)}</p>
+          {preview && (
+            <ul className="space-y-1 text-sm">
+              {PREVIEW_ROWS.filter(row => preview[row] > 0).map(row => (
+                <li key={row} className="flex justify-between p-2 bg-gray-800/50 rounded-lg">
+                  <span className="text-gray-300">{t(`settings.data_management.preview.${row}`)}</span>
+                  <span className="font-semibold text-white">{preview[row]}</span>
+                </li>
+              ))}
+              {PREVIEW_ROWS.every(row => preview[row] === 0) && (
+                <li className="text-gray-500 text-center py-2">{t('settings.data_management.preview.no_changes')}</li>
+              )}
+            </ul>
+          )}
+          {preview?.settingsReplaced && <p className="text-sm text-yellow-400">{t('settings.data_management.preview.settings_replaced')}</p>}
+          {backup && !backup.includesApiKey && mode === 'replace' && (
+            <p className="text-sm text-gray-400">{t('settings.data_management.preview.api_key_kept')}</p>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose>
+            <Button type="button" className="bg-transparent border border-gray-600 hover:bg-gray-700 text-white">
+              {t('general.cancel')}
+            </Button>
+          </DialogClose>
+          <Button type="button" onClick={handleConfirm} disabled={isImporting}>{t('settings.data_management.confirm_import')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportBackupDialog;
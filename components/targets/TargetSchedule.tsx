@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { DayTarget, MacronutrientGoals } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { TrashIcon } from '../Icons';
+import { Button, Input, Label } from '../ui';
+import { WEEKDAYS } from '../../utils/targets';
+import { addDaysToKey, formatDateKey } from '../../utils/date';
+
+type TargetField = 'dailyGoal' | keyof MacronutrientGoals;
+
+const TARGET_FIELDS: TargetField[] = ['dailyGoal', 'protein', 'carbs', 'fat'];
+
+const getField = (target: DayTarget, field: TargetField): number => {
+  return field === 'dailyGoal' ? target.dailyGoal : target.macronutrientGoals[field];
+};
+
+const withField = (target: DayTarget, field: TargetField, value: number): DayTarget => {
+  return field === 'dailyGoal'
+    ? { ...target, dailyGoal: value }
+    : { ...target, macronutrientGoals: { ...target.macronutrientGoals, [field]: value } };
+};
+
+const TargetInputs: React.FC<{ target: DayTarget; onChange: (target: DayTarget) => void; t: (key: string) => string }> = ({ target, onChange, t }) => (
+  <div className="grid grid-cols-4 gap-2">
+    {TARGET_FIELDS.map(field => (
+      <label key={field} className="block">
+        <span className="block text-xs text-gray-500 mb-1 truncate">{field === 'dailyGoal' ? t('dashboard.kcal') : `${t(`log.${field}`)} (g)`}</span>
+        <Input type="number" value={getField(target, field)} onChange={(e) => onChange(withField(target, field, Number(e.target.value)))} />
+      </label>
+    ))}
+  </div>
+);
+
+const TargetSchedule: React.FC = () => {
+  const { appState, setWeekdayTarget, setDateTarget, dateString } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const defaultTarget: DayTarget = { dailyGoal: appState.dailyGoal, macronutrientGoals: appState.macronutrientGoals };
+  const [overrideDate, setOverrideDate] = useState(dateString);
+  const [override, setOverride] = useState<DayTarget>(defaultTarget);
+
+  const weekdayTargets: Partial<Record<number, DayTarget>> = appState.weekdayTargets;
+  const dateTargets: Record<string, DayTarget> = appState.dateTargets;
+  const overrideDates = Object.keys(dateTargets).sort();
+
+  // 7 Jan 2024 was a Sunday, so this yields localized names in getDay() order
+  const weekdayName = (weekday: number) => formatDateKey(addDaysToKey('2024-01-07', weekday), locale, { weekday: 'long' });
+
+  const formatTarget = (target: DayTarget) => {
+    const { protein, carbs, fat } = target.macronutrientGoals;
+    return `${target.dailyGoal.toLocaleString()} ${t('dashboard.kcal')} · P ${protein}g · C ${carbs}g · F ${fat}g`;
+  };
+
+  const handleAddOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!overrideDate || override.dailyGoal <= 0) return;
+    setDateTarget(overrideDate, override);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="font-semibold text-white">{t('settings.targets.weekly')}</p>
+        {WEEKDAYS.map(weekday => {
+          const target = weekdayTargets[weekday];
+          return (
+            <div key={weekday} className="p-3 bg-gray-800/50 rounded-xl space-y-2">
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={!!target}
+                  onChange={(e) => setWeekdayTarget(weekday, e.target.checked ? defaultTarget : null)}
+                />
+                <span className="font-medium text-white flex-grow">{weekdayName(weekday)}</span>
+                {!target && <span className="text-xs text-gray-500">{t('settings.targets.uses_default')}</span>}
+              </label>
+              {target && <TargetInputs target={target} onChange={(next) => setWeekdayTarget(weekday, next)} t={t} />}
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleAddOverride} className="space-y-2">
+        <p className="font-semibold text-white">{t('settings.targets.overrides')}</p>
+        <div>
+          <Label htmlFor="overrideDate">{t('log.edit.date')}</Label>
+          <Input id="overrideDate" type="date" value={overrideDate} onChange={(e) => setOverrideDate(e.target.value)} required />
+        </div>
+        <TargetInputs target={override} onChange={setOverride} t={t} />
+        <Button type="submit" className="w-full">{t('settings.targets.add_override')}</Button>
+      </form>
+
+      {overrideDates.length > 0 && (
+        <ul className="space-y-2">
+          {overrideDates.map(date => (
+            <li key={date} className="flex items-center p-3 bg-gray-800/50 rounded-xl transition-all hover:bg-gray-800/80">
+              <div className="flex-grow">
+                <p className="font-bold text-white">{formatDateKey(date, locale, { year: 'numeric', month: 'short', day: 'numeric' })}</p>
+                <p className="text-sm text-gray-400">{formatTarget(dateTargets[date])}</p>
+              </div>
+              <button type="button" onClick={() => setDateTarget(date, null)} className="text-gray-600 hover:text-red-500 transition-colors opacity-50 hover:opacity-100">
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TargetSchedule;
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { DailyLog } from '../../types';
+import { useAppState } from '../../hooks/useAppState';
+import { useTranslation } from '../../hooks/useTranslation';
+import { addDaysToKey, formatTimeOfDay } from '../../utils/date';
+import { buildTimeline, getEatingStats } from '../../utils/timeline';
+
+interface DayTimelineProps {
+  log: DailyLog;
+}
+
+const DayTimeline: React.FC<DayTimelineProps> = ({ log }) => {
+  const { appState, dateString } = useAppState();
+  const { t, locale } = useTranslation(appState.language);
+  const { dayStartHour } = appState;
+
+  const items = useMemo(() => buildTimeline(log, dayStartHour), [log, dayStartHour]);
+  const previousLog: DailyLog | undefined = appState.logs[addDaysToKey(dateString, -1)];
+  const stats = useMemo(() => getEatingStats(log, previousLog, dayStartHour), [log, previousLog, dayStartHour]);
+
+  const formatDuration = (minutes: number | null) => minutes === null
+    ? '—'
+    : t('log.timeline.duration', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+
+  if (items.length === 0) {
+    return <p className="text-gray-500 text-center py-8">{t('log.timeline.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {stats && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+          <div className="p-3 bg-gray-800/50 rounded-xl">
+            <p className="text-xs text-gray-500">{t('log.timeline.eating_window')}</p>
+            <p className="font-bold text-white">{formatDuration(stats.eatingWindow)}</p>
+            <p className="text-xs text-gray-500">{formatTimeOfDay(stats.firstMeal, locale)} – {formatTimeOfDay(stats.lastMeal, locale)}</p>
+          </div>
+          <div className="p-3 bg-gray-800/50 rounded-xl">
+            <p className="text-xs text-gray-500">{t('log.timeline.fast')}</p>
+            <p className="font-bold text-white">{formatDuration(stats.fastBefore)}</p>
+          </div>
+          <div className="p-3 bg-gray-800/50 rounded-xl">
+            <p className="text-xs text-gray-500">{t('log.timeline.meals')}</p>
+            <p className="font-bold text-white">{stats.meals}</p>
+          </div>
+          <div className="p-3 bg-gray-800/50 rounded-xl">
+            <p className="text-xs text-gray-500">{t('log.timeline.spacing')}</p>
+            <p className="font-bold text-white">{formatDuration(stats.averageSpacing)}</p>
+            {stats.longestSpacing !== null && (
+              <p className="text-xs text-gray-500">{t('log.timeline.longest_gap', { duration: formatDuration(stats.longestSpacing) })}</p>
+            )}
+          </div>
+        </div>
+      )}
+      <ol className="relative border-l border-gray-700 ml-14 space-y-3">
+        {items.map(item => (
+          <li key={`${item.kind}-${item.entry.id}`} className="relative pl-4">
+            <span className="absolute -left-14 top-2 w-12 text-right text-xs text-gray-400">
+              {item.entry.time ? formatTimeOfDay(item.entry.time, locale) : t('log.timeline.no_time')}
+            </span>
+            <span className={`absolute -left-1.5 top-3 w-3 h-3 rounded-full ${item.kind === 'food' ? 'bg-blue-500' : 'bg-green-500'}`} />
+            <div className="flex items-center p-3 bg-gray-800/50 rounded-xl">
+              <div className="flex-grow">
+                <p className="font-bold text-white capitalize">{item.entry.name}</p>
+                <p className="text-sm text-gray-400">
+                  {item.kind === 'food' ? t(`log.meal.${item.entry.meal}`) : `${item.entry.duration} ${t('log.duration_unit')}`}
+                </p>
+              </div>
+              <p className={`font-bold ${item.kind === 'food' ? 'text-blue-400' : 'text-green-400'}`}>
+                {item.kind === 'food' ? '+' : '−'}{item.entry.calories.toLocaleString()} {t('dashboard.kcal')}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default DayTimeline;
@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Hands out an AbortSignal for each request a component starts. Starting a new request
+ * aborts the previous one, and whatever is still running is aborted on unmount.
+ */
+export const useAbortSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+};
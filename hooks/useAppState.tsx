@@ -1,5 +1,13 @@
-import React, { useState, useEffect, useCallback, createContext, useContext } from 'react';
-import { AppState, DailyLog, FoodEntry, ExerciseEntry, UserProfile, ChatMessage, MacronutrientGoals } from '../types';
+import React, { useState, useEffect, useCallback, useRef, createContext, useContext } from 'react';
+import { AppState, DailyLog, FoodEntry, ExerciseEntry, UserProfile, ChatMessage, MacronutrientGoals, CustomFood, BarcodeProduct, BodyMeasurement, GoalPlan, DayTarget, FastingProtocol, FastRecord, WaterEntry, Micronutrient, NutrientGoal, Recipe, AiProviderKind } from '../types';
+import { ensureCustomFoodIds } from '../utils/customFoods';
+import { getCurrentTrendWeight } from '../utils/weightTrend';
+import { loadState, saveState, StorageError, StorageErrorKind } from '../services/storageService';
+import { ImportMode, mergeStates } from '../utils/backup';
+import { toDateKey, toTimeOfDay } from '../utils/date';
+import { FASTING_PROTOCOLS, MIN_FAST_MS } from '../utils/fasting';
+import { DEFAULT_NUTRIENT_GOALS } from '../utils/nutrients';
+import { migrateState, SCHEMA_VERSION } from '../utils/migrations';
 
 const getInitialLanguage = (): 'en' | 'zh-TW' => {
   const browserLang = navigator.language.toLowerCase();
@@ -9,22 +17,71 @@ const getInitialLanguage = (): 'en' | 'zh-TW' => {
   return 'en';
 };
 
-const getDateString = (date: Date): string => {
-  return date.toISOString().split('T')[0];
+const emptyLog = (): DailyLog => ({ food: [], exercise: [] });
+
+// Keeps the profile weight (used for TDEE and exercise estimates) on the smoothed trend
+const withTrendWeight = (state: AppState): AppState => {
+  const weight = getCurrentTrendWeight(state.measurements);
+  if (weight === null || weight === state.userProfile.weight) return state;
+  return { ...state, userProfile: { ...state.userProfile, weight } };
+};
+
+// Replaces an entry in place, or moves it to another day's log when the date changes
+const replaceLogEntry = <K extends keyof DailyLog>(
+  logs: Record<string, DailyLog>,
+  key: K,
+  sourceDate: string,
+  targetDate: string,
+  entry: DailyLog[K][number]
+): Record<string, DailyLog> => {
+  const sourceLog = logs[sourceDate];
+  if (!sourceLog) return logs;
+  const entries = sourceLog[key] as DailyLog[K][number][];
+  if (!entries.some(e => e.id === entry.id)) return logs;
+
+  if (sourceDate === targetDate) {
+    const updated = entries.map(e => e.id === entry.id ? entry : e);
+    return { ...logs, [sourceDate]: { ...sourceLog, [key]: updated } };
+  }
+
+  const targetLog = logs[targetDate] || emptyLog();
+  return {
+    ...logs,
+    [sourceDate]: { ...sourceLog, [key]: entries.filter(e => e.id !== entry.id) },
+    [targetDate]: { ...targetLog, [key]: [...(targetLog[key] as DailyLog[K][number][]), entry] },
+  };
 };
 
 const initialAppState: AppState = {
+  schemaVersion: SCHEMA_VERSION,
   dailyGoal: 2000,
   macronutrientGoals: {
     protein: 150,
     carbs: 250,
     fat: 60
   },
+  plan: null,
+  weekdayTargets: {},
+  dateTargets: {},
   logs: {},
+  measurements: {},
   customFoods: [],
+  recipes: [],
+  products: {},
+  waterContainers: [250, 500, 750],
+  nutrientGoals: DEFAULT_NUTRIENT_GOALS,
+  fasting: {
+    protocol: '16:8',
+    activeStart: null,
+    history: []
+  },
+  aiProvider: 'gemini-proxy',
+  aiBaseUrl: 'https://ai-proxy.chatkit.app/generativelanguage',
   apiKey: null,
   aiModel: 'gemini-2.5-flash',
+  aiContextDays: 7,
   language: getInitialLanguage(),
+  dayStartHour: 0,
   userProfile: {
     age: null,
     sex: null,
@@ -42,38 +99,60 @@ const AppStateContext = createContext<any>(null);
 export const AppStateProvider = ({ children }: { children: React.ReactNode }) => {
   const [appState, setAppState] = useState<AppState>(initialAppState);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [storageError, setStorageError] = useState<StorageErrorKind | null>(null);
+  // Last state known to be persisted; null forces the next save to rewrite everything
+  const lastSavedRef = useRef<AppState | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Set when the saved state could not be loaded; nothing is saved until the next launch
+  const loadFailedRef = useRef(false);
   const [selectedDate, setSelectedDate] = useState(new Date());
 
-  const dateString = getDateString(selectedDate);
+  const dateString = toDateKey(selectedDate, appState.dayStartHour);
+  const todayString = toDateKey(new Date(), appState.dayStartHour);
 
   useEffect(() => {
-    try {
-      const storedState = localStorage.getItem('calorieTrackerState');
-      if (storedState) {
-        const parsedState = JSON.parse(storedState);
+    loadState().then(loaded => {
+      let loadedState = initialAppState;
+      if (loaded) {
+        const parsedState = migrateState(loaded.state);
         const language = parsedState.language || getInitialLanguage();
         const userProfile = parsedState.userProfile || initialAppState.userProfile;
         const chatHistory = parsedState.chatHistory || [];
         const macronutrientGoals = parsedState.macronutrientGoals || initialAppState.macronutrientGoals;
-        setAppState({ ...initialAppState, ...parsedState, language, userProfile, chatHistory, macronutrientGoals });
-      } else {
-        setAppState(initialAppState);
+        const customFoods = ensureCustomFoodIds(parsedState.customFoods || []);
+        loadedState = { ...initialAppState, ...parsedState, language, userProfile, chatHistory, macronutrientGoals, customFoods };
       }
-    } catch (error) {
-      console.error("Could not load state from localStorage", error);
+      // Diff the first save against what is on disk instead of rewriting every day, unless what
+      // is on disk predates the migrations just applied; then every migrated day must be written
+      const isCurrent = loaded && !loaded.fromLegacy && (loaded.state.schemaVersion || 0) >= SCHEMA_VERSION;
+      lastSavedRef.current = isCurrent ? loadedState : null;
+      setAppState(loadedState);
+    }).catch(error => {
+      console.error("Could not load saved state", error);
+      // Saving the empty default state now would overwrite the data that failed to load
+      loadFailedRef.current = true;
+      setStorageError('read');
       setAppState(initialAppState);
-    }
-    setIsInitialized(true);
+    }).finally(() => {
+      setIsInitialized(true);
+    });
   }, []);
 
   useEffect(() => {
-    if (isInitialized) {
-      try {
-        localStorage.setItem('calorieTrackerState', JSON.stringify(appState));
-      } catch (error) {
-        console.error("Could not save state to localStorage", error);
-      }
-    }
+    if (!isInitialized || loadFailedRef.current) return;
+    const next = appState;
+    // Queue saves so each diff is taken against state that was actually written
+    saveQueueRef.current = saveQueueRef.current.then(() => {
+      return saveState(lastSavedRef.current, next).then(() => {
+        lastSavedRef.current = next;
+        setStorageError(null);
+      }).catch((error: StorageError) => {
+        console.error("Could not save state", error);
+        setStorageError(error.kind);
+        // The diff was not written, so rewrite everything next time
+        lastSavedRef.current = null;
+      });
+    });
   }, [appState, isInitialized]);
 
   const updateState = useCallback((updater: (prevState: AppState) => AppState) => {
@@ -84,31 +163,86 @@ export const AppStateProvider = ({ children }: { children: React.ReactNode }) =>
     return appState.logs[date] || { food: [], exercise: [] };
   }, [appState.logs]);
 
-  const addFood = useCallback((food: Omit<FoodEntry, 'id'>) => {
+  const addFood = useCallback((food: Omit<FoodEntry, 'id'>, date: string = dateString) => {
     updateState(prev => {
-      const newFoodEntry: FoodEntry = { ...food, id: Date.now().toString() };
-      const currentLog = prev.logs[dateString] || { food: [], exercise: [] };
+      const newFoodEntry: FoodEntry = { ...food, time: food.time || toTimeOfDay(new Date()), id: Date.now().toString() };
+      const currentLog = prev.logs[date] || { food: [], exercise: [] };
       const newLog = { ...currentLog, food: [...currentLog.food, newFoodEntry] };
-      return { ...prev, logs: { ...prev.logs, [dateString]: newLog } };
+      return { ...prev, logs: { ...prev.logs, [date]: newLog } };
     });
   }, [updateState, dateString]);
 
-  const addExercise = useCallback((exercise: Omit<ExerciseEntry, 'id'>) => {
+  const addFoods = useCallback((foods: Omit<FoodEntry, 'id'>[]) => {
     updateState(prev => {
-      const newExerciseEntry: ExerciseEntry = { ...exercise, id: Date.now().toString() };
+      const now = Date.now();
+      const time = toTimeOfDay(new Date(now));
+      const newFoodEntries: FoodEntry[] = foods.map((food, index) => ({ ...food, time: food.time || time, id: `${now}-${index}` }));
       const currentLog = prev.logs[dateString] || { food: [], exercise: [] };
-      const newLog = { ...currentLog, exercise: [...currentLog.exercise, newExerciseEntry] };
+      const newLog = { ...currentLog, food: [...currentLog.food, ...newFoodEntries] };
       return { ...prev, logs: { ...prev.logs, [dateString]: newLog } };
     });
   }, [updateState, dateString]);
+
+  const addExercise = useCallback((exercise: Omit<ExerciseEntry, 'id'>, date: string = dateString) => {
+    updateState(prev => {
+      const newExerciseEntry: ExerciseEntry = { ...exercise, time: exercise.time || toTimeOfDay(new Date()), id: Date.now().toString() };
+      const currentLog = prev.logs[date] || { food: [], exercise: [] };
+      const newLog = { ...currentLog, exercise: [...currentLog.exercise, newExerciseEntry] };
+      return { ...prev, logs: { ...prev.logs, [date]: newLog } };
+    });
+  }, [updateState, dateString]);
   
-  const removeFood = useCallback((foodId: string) => {
+  const removeFood = useCallback((foodId: string, date: string = dateString) => {
     updateState(prev => {
-        const currentLog = prev.logs[dateString];
+        const currentLog = prev.logs[date];
         if (!currentLog) return prev;
         const newFood = currentLog.food.filter(f => f.id !== foodId);
         const newLog = { ...currentLog, food: newFood };
+        return { ...prev, logs: { ...prev.logs, [date]: newLog } };
+    });
+  }, [updateState, dateString]);
+
+  // Clones entries into another day's log with fresh ids, optionally reassigning their meal
+  const copyFoods = useCallback((entries: FoodEntry[], targetDate: string, meal?: FoodEntry['meal']) => {
+    updateState(prev => {
+      const now = Date.now();
+      const copies: FoodEntry[] = entries.map((entry, index) => ({ ...entry, meal: meal || entry.meal, id: `${now}-${index}` }));
+      const targetLog = prev.logs[targetDate] || emptyLog();
+      const newLog = { ...targetLog, food: [...targetLog.food, ...copies] };
+      return { ...prev, logs: { ...prev.logs, [targetDate]: newLog } };
+    });
+  }, [updateState]);
+
+  const moveFoods = useCallback((foodIds: string[], targetDate: string, meal?: FoodEntry['meal']) => {
+    updateState(prev => {
+      const currentLog = prev.logs[dateString];
+      if (!currentLog) return prev;
+      const ids = new Set(foodIds);
+      const withMeal = (entry: FoodEntry): FoodEntry => meal ? { ...entry, meal } : entry;
+      if (targetDate === dateString) {
+        const newLog = { ...currentLog, food: currentLog.food.map(f => ids.has(f.id) ? withMeal(f) : f) };
         return { ...prev, logs: { ...prev.logs, [dateString]: newLog } };
+      }
+      const moving = currentLog.food.filter(f => ids.has(f.id)).map(withMeal);
+      const targetLog = prev.logs[targetDate] || emptyLog();
+      return {
+        ...prev,
+        logs: {
+          ...prev.logs,
+          [dateString]: { ...currentLog, food: currentLog.food.filter(f => !ids.has(f.id)) },
+          [targetDate]: { ...targetLog, food: [...targetLog.food, ...moving] },
+        },
+      };
+    });
+  }, [updateState, dateString]);
+
+  const removeFoods = useCallback((foodIds: string[]) => {
+    updateState(prev => {
+      const currentLog = prev.logs[dateString];
+      if (!currentLog) return prev;
+      const ids = new Set(foodIds);
+      const newLog = { ...currentLog, food: currentLog.food.filter(f => !ids.has(f.id)) };
+      return { ...prev, logs: { ...prev.logs, [dateString]: newLog } };
     });
   }, [updateState, dateString]);
 
@@ -122,10 +256,140 @@ export const AppStateProvider = ({ children }: { children: React.ReactNode }) =>
       });
   }, [updateState, dateString]);
 
+  const addWater = useCallback((amount: number) => {
+    updateState(prev => {
+      const newWaterEntry: WaterEntry = { id: Date.now().toString(), amount, time: toTimeOfDay(new Date()) };
+      const currentLog = prev.logs[dateString] || emptyLog();
+      const newLog = { ...currentLog, water: [...(currentLog.water || []), newWaterEntry] };
+      return { ...prev, logs: { ...prev.logs, [dateString]: newLog } };
+    });
+  }, [updateState, dateString]);
+
+  const removeWater = useCallback((waterId: string) => {
+    updateState(prev => {
+      const currentLog = prev.logs[dateString];
+      if (!currentLog?.water) return prev;
+      const newLog = { ...currentLog, water: currentLog.water.filter(w => w.id !== waterId) };
+      return { ...prev, logs: { ...prev.logs, [dateString]: newLog } };
+    });
+  }, [updateState, dateString]);
+
+  // Passing null stops tracking the nutrient against a goal
+  const setNutrientGoal = useCallback((nutrient: Micronutrient, goal: NutrientGoal | null) => {
+    updateState(prev => {
+      const nutrientGoals = { ...prev.nutrientGoals };
+      if (goal) {
+        nutrientGoals[nutrient] = goal;
+      } else {
+        delete nutrientGoals[nutrient];
+      }
+      return { ...prev, nutrientGoals };
+    });
+  }, [updateState]);
+
+  const setWaterContainers = useCallback((waterContainers: number[]) => {
+    updateState(prev => ({ ...prev, waterContainers }));
+  }, [updateState]);
+
+  const updateFood = useCallback((food: FoodEntry, targetDate: string = dateString) => {
+    updateState(prev => ({ ...prev, logs: replaceLogEntry(prev.logs, 'food', dateString, targetDate, food) }));
+  }, [updateState, dateString]);
+
+  const updateExercise = useCallback((exercise: ExerciseEntry, targetDate: string = dateString) => {
+    updateState(prev => ({ ...prev, logs: replaceLogEntry(prev.logs, 'exercise', dateString, targetDate, exercise) }));
+  }, [updateState, dateString]);
+
+  const addCustomFood = useCallback((food: Omit<CustomFood, 'id'>) => {
+    updateState(prev => {
+      const newCustomFood: CustomFood = { ...food, id: Date.now().toString() };
+      return { ...prev, customFoods: [...prev.customFoods, newCustomFood] };
+    });
+  }, [updateState]);
+
+  const updateCustomFood = useCallback((food: CustomFood) => {
+    updateState(prev => ({
+      ...prev,
+      customFoods: prev.customFoods.map(f => f.id === food.id ? food : f)
+    }));
+  }, [updateState]);
+
+  const removeCustomFood = useCallback((foodId: string) => {
+    updateState(prev => ({
+      ...prev,
+      customFoods: prev.customFoods.filter(f => f.id !== foodId)
+    }));
+  }, [updateState]);
+
+  const addRecipe = useCallback((recipe: Omit<Recipe, 'id'>) => {
+    updateState(prev => ({ ...prev, recipes: [...prev.recipes, { ...recipe, id: Date.now().toString() }] }));
+  }, [updateState]);
+
+  const updateRecipe = useCallback((recipe: Recipe) => {
+    updateState(prev => ({ ...prev, recipes: prev.recipes.map(r => r.id === recipe.id ? recipe : r) }));
+  }, [updateState]);
+
+  const removeRecipe = useCallback((recipeId: string) => {
+    updateState(prev => ({ ...prev, recipes: prev.recipes.filter(r => r.id !== recipeId) }));
+  }, [updateState]);
+
+  const saveProduct = useCallback((product: BarcodeProduct) => {
+    updateState(prev => ({ ...prev, products: { ...prev.products, [product.code]: product } }));
+  }, [updateState]);
+
+  const saveMeasurement = useCallback((date: string, measurement: BodyMeasurement) => {
+    updateState(prev => {
+      const cleaned = Object.fromEntries(
+        Object.entries(measurement).filter(([, v]) => typeof v === 'number' && v > 0)
+      ) as BodyMeasurement;
+      const measurements = { ...prev.measurements };
+      if (Object.keys(cleaned).length > 0) {
+        measurements[date] = cleaned;
+      } else {
+        delete measurements[date];
+      }
+      return withTrendWeight({ ...prev, measurements });
+    });
+  }, [updateState]);
+
+  const removeMeasurement = useCallback((date: string) => {
+    updateState(prev => {
+      const { [date]: _removed, ...measurements } = prev.measurements;
+      return withTrendWeight({ ...prev, measurements });
+    });
+  }, [updateState]);
+
   const setDailyGoal = useCallback((goal: number) => {
     updateState(prev => ({...prev, dailyGoal: goal}));
   }, [updateState]);
 
+  const setWeekdayTarget = useCallback((weekday: number, target: DayTarget | null) => {
+    updateState(prev => {
+      const weekdayTargets = { ...prev.weekdayTargets };
+      if (target) {
+        weekdayTargets[weekday] = target;
+      } else {
+        delete weekdayTargets[weekday];
+      }
+      return { ...prev, weekdayTargets };
+    });
+  }, [updateState]);
+
+  const setDateTarget = useCallback((date: string, target: DayTarget | null) => {
+    updateState(prev => {
+      const dateTargets = { ...prev.dateTargets };
+      if (target) {
+        dateTargets[date] = target;
+      } else {
+        delete dateTargets[date];
+      }
+      return { ...prev, dateTargets };
+    });
+  }, [updateState]);
+
+  const setPlan = useCallback((plan: GoalPlan | null) => {
+    updateState(prev => ({ ...prev, plan }));
+  }, [updateState]);
+
   const setApiKey = useCallback((apiKey: string | null) => {
     updateState(prev => ({ ...prev, apiKey }));
   }, [updateState]);
@@ -138,10 +402,49 @@ export const AppStateProvider = ({ children }: { children: React.ReactNode }) =>
     updateState(prev => ({ ...prev, aiModel }));
   }, [updateState]);
 
+  const setAiProvider = useCallback((aiProvider: AiProviderKind) => {
+    updateState(prev => ({ ...prev, aiProvider }));
+  }, [updateState]);
+
+  const setAiBaseUrl = useCallback((aiBaseUrl: string) => {
+    updateState(prev => ({ ...prev, aiBaseUrl }));
+  }, [updateState]);
+
   const setLanguage = useCallback((language: 'en' | 'zh-TW') => {
     updateState(prev => ({ ...prev, language }));
   }, [updateState]);
 
+  const startFast = useCallback((start: number = Date.now()) => {
+    updateState(prev => ({ ...prev, fasting: { ...prev.fasting, activeStart: start } }));
+  }, [updateState]);
+
+  const endFast = useCallback((end: number = Date.now()) => {
+    updateState(prev => {
+      const { activeStart, protocol, history } = prev.fasting;
+      if (activeStart === null) return prev;
+      const record: FastRecord = { id: end.toString(), start: activeStart, end, targetHours: FASTING_PROTOCOLS[protocol] };
+      // A fast stopped right after starting it was a mistake, not a fast
+      const kept = end - activeStart >= MIN_FAST_MS ? [...history, record] : history;
+      return { ...prev, fasting: { ...prev.fasting, activeStart: null, history: kept } };
+    });
+  }, [updateState]);
+
+  const removeFast = useCallback((id: string) => {
+    updateState(prev => ({ ...prev, fasting: { ...prev.fasting, history: prev.fasting.history.filter(fast => fast.id !== id) } }));
+  }, [updateState]);
+
+  const setFastingProtocol = useCallback((protocol: FastingProtocol) => {
+    updateState(prev => ({ ...prev, fasting: { ...prev.fasting, protocol } }));
+  }, [updateState]);
+
+  const setAiContextDays = useCallback((aiContextDays: number) => {
+    updateState(prev => ({ ...prev, aiContextDays }));
+  }, [updateState]);
+
+  const setDayStartHour = useCallback((dayStartHour: number) => {
+    updateState(prev => ({ ...prev, dayStartHour }));
+  }, [updateState]);
+
   const updateUserProfile = useCallback((profile: Partial<UserProfile>) => {
     updateState(prev => ({ ...prev, userProfile: { ...prev.userProfile, ...profile }}));
   }, [updateState]);
@@ -154,13 +457,42 @@ export const AppStateProvider = ({ children }: { children: React.ReactNode }) =>
     updateState(prev => ({...prev, chatHistory: []}));
   }, [updateState]);
 
-  const importData = useCallback((newState: AppState) => {
-    if (newState && newState.logs && typeof newState.dailyGoal === 'number') {
-        setAppState(newState);
-        return true;
+  // Builds the state an import would produce without applying it, so it can be previewed
+  const resolveImport = useCallback((incoming: Partial<AppState>, mode: ImportMode): AppState => {
+    const migrated = migrateState(incoming);
+    const normalized = { ...migrated, customFoods: ensureCustomFoodIds(migrated.customFoods || []) };
+    if (mode === 'merge') {
+      return withTrendWeight(mergeStates(appState, normalized));
+    }
+    // A backup exported without the API key keeps the one already configured
+    return withTrendWeight({ ...initialAppState, ...normalized, apiKey: incoming.apiKey ?? appState.apiKey });
+  }, [appState]);
+
+  // Merges imported entries by id; imported weigh-ins keep the other measurements already saved for that day
+  const importLogs = useCallback((logs: Record<string, DailyLog>, measurements: Record<string, BodyMeasurement> = {}) => {
+    updateState(prev => {
+      const merged = Object.fromEntries(
+        Object.entries(measurements).map(([date, measurement]) => [date, { ...prev.measurements[date], ...measurement }])
+      );
+      return withTrendWeight(mergeStates(prev, { logs, measurements: merged }));
+    });
+  }, [updateState]);
+
+  // Resolves once the imported state is persisted, so the caller can safely reload
+  const importData = useCallback(async (incoming: Partial<AppState>, mode: ImportMode): Promise<void> => {
+    if (loadFailedRef.current && mode === 'merge') {
+      // There is nothing loaded to merge into; writing the result would drop the unread data
+      throw new StorageError('read', 'Saved state was not loaded');
     }
-    return false;
-  }, [setAppState]);
+    const state = resolveImport(incoming, mode);
+    const write = saveQueueRef.current.then(() => saveState(null, state));
+    saveQueueRef.current = write.catch(() => {});
+    await write;
+    lastSavedRef.current = state;
+    loadFailedRef.current = false;
+    setStorageError(null);
+    setAppState(state);
+  }, [resolveImport]);
 
   const checkForUpdates = useCallback((onUpdateAvailable: (worker: ServiceWorker) => void) => {
     if ('serviceWorker' in navigator) {
@@ -191,20 +523,55 @@ export const AppStateProvider = ({ children }: { children: React.ReactNode }) =>
     updateState,
     getLogForDate,
     addFood,
+    addFoods,
     addExercise,
     removeFood,
+    copyFoods,
+    moveFoods,
+    removeFoods,
     removeExercise,
+    addWater,
+    removeWater,
+    setWaterContainers,
+    setNutrientGoal,
+    updateFood,
+    updateExercise,
+    addCustomFood,
+    updateCustomFood,
+    removeCustomFood,
+    addRecipe,
+    updateRecipe,
+    removeRecipe,
+    saveProduct,
+    saveMeasurement,
+    removeMeasurement,
     setDailyGoal,
     setApiKey,
     setAiModel,
+    setAiProvider,
+    setAiBaseUrl,
     setMacronutrientGoals,
+    setPlan,
+    setWeekdayTarget,
+    setDateTarget,
+    startFast,
+    endFast,
+    removeFast,
+    setFastingProtocol,
     isInitialized,
+    storageError,
     selectedDate,
     setSelectedDate,
+    dateString,
+    todayString,
+    setDayStartHour,
+    setAiContextDays,
     setLanguage,
     updateUserProfile,
     setChatHistory,
     clearChatHistory,
+    resolveImport,
+    importLogs,
     importData,
     checkForUpdates,
   };
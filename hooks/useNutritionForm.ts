@@ -0,0 +1,69 @@
+import { useState, useCallback } from 'react';
+import { Nutrition, Portion } from '../types';
+import { defaultPortion, scaleNutrition, toPer100g } from '../utils/portions';
+
+export type NutritionFields = Record<keyof Nutrition, string>;
+
+const emptyFields: NutritionFields = { calories: '', protein: '', carbs: '', fat: '' };
+
+const toFields = (nutrition: Nutrition): NutritionFields => ({
+  calories: String(nutrition.calories),
+  protein: String(nutrition.protein),
+  carbs: String(nutrition.carbs),
+  fat: String(nutrition.fat),
+});
+
+const parseFields = (fields: NutritionFields): Nutrition => ({
+  calories: parseInt(fields.calories, 10) || 0,
+  protein: parseInt(fields.protein, 10) || 0,
+  carbs: parseInt(fields.carbs, 10) || 0,
+  fat: parseInt(fields.fat, 10) || 0,
+});
+
+/**
+ * Form state for a food's macros and portion. Editing a macro re-derives the
+ * per-100g base, and changing the portion rescales the macros from that base.
+ */
+export const useNutritionForm = () => {
+  const [fields, setFields] = useState<NutritionFields>(emptyFields);
+  const [portion, setPortionState] = useState<Portion>(defaultPortion);
+  const [per100g, setPer100g] = useState<Nutrition | undefined>(undefined);
+
+  const setField = useCallback((name: keyof Nutrition, value: string) => {
+    const next = { ...fields, [name]: value };
+    const hasValues = Object.values(next).some(v => v !== '');
+    setFields(next);
+    setPer100g(hasValues ? toPer100g(parseFields(next), portion) : undefined);
+  }, [fields, portion]);
+
+  const setPortion = useCallback((next: Portion) => {
+    setPortionState(next);
+    if (per100g) {
+      setFields(toFields(scaleNutrition(per100g, next)));
+    }
+  }, [per100g]);
+
+  const load = useCallback((nutrition: Nutrition, nextPortion: Portion = defaultPortion, base?: Nutrition) => {
+    setFields(toFields(nutrition));
+    setPortionState(nextPortion);
+    setPer100g(base || toPer100g(nutrition, nextPortion));
+  }, []);
+
+  const reset = useCallback(() => {
+    setFields(emptyFields);
+    setPortionState(defaultPortion);
+    setPer100g(undefined);
+  }, []);
+
+  return {
+    fields,
+    setField,
+    portion,
+    setPortion,
+    per100g,
+    load,
+    reset,
+    nutrition: parseFields(fields),
+    isComplete: Object.values(fields).every(v => v !== ''),
+  };
+};
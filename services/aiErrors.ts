@@ -0,0 +1,140 @@
+import type { AiConfig } from './aiProvider';
+
+export type AiErrorKind =
+    | 'not_configured'
+    | 'invalid_key'
+    | 'rate_limit'
+    | 'model_unavailable'
+    | 'network'
+    | 'server'
+    | 'safety'
+    | 'malformed'
+    | 'unknown';
+
+export class AiError extends Error {
+    readonly kind: AiErrorKind;
+    readonly retryAfterMs: number | null; // how long the provider asked us to wait, when it said
+
+    constructor(kind: AiErrorKind, message: string, retryAfterMs: number | null = null) {
+        super(message);
+        this.name = 'AiError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+const RETRYABLE_KINDS: AiErrorKind[] = ['rate_limit', 'network', 'server', 'malformed'];
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+// A longer requested wait usually means a daily quota is used up, not a burst limit
+const MAX_RETRY_AFTER_MS = 20000;
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Gemini puts the wait in the error body ("retryDelay": "23s"); OpenAI-compatible servers send a Retry-After header
+const parseRetryDelay = (message: string): number | null => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.ceil(Number(match[1]) * 1000) : null;
+};
+
+export const parseRetryAfterHeader = (value: string | null): number | null => {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/** Maps an HTTP error response to the matching kind */
+export const httpError = (status: number, message: string, retryAfterMs: number | null = null): AiError => {
+    const lower = message.toLowerCase();
+    if (status === 401 || status === 403 || lower.includes('api key not valid') || lower.includes('invalid api key')) {
+        return new AiError('invalid_key', message);
+    }
+    if (status === 429 || lower.includes('resource_exhausted')) {
+        return new AiError('rate_limit', message, retryAfterMs ?? parseRetryDelay(message));
+    }
+    if (status === 404 || (lower.includes('model') && (lower.includes('not found') || lower.includes('is not supported')))) {
+        return new AiError('model_unavailable', message);
+    }
+    if (status >= 500) return new AiError('server', message, retryAfterMs);
+    return new AiError('unknown', message);
+};
+
+/** Normalizes anything a provider throws into an AiError */
+export const toAiError = (error: unknown): AiError => {
+    if (error instanceof AiError) return error;
+    if (error instanceof SyntaxError) return new AiError('malformed', error.message);
+    const message = error instanceof Error ? error.message : String(error);
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') return httpError(status, message);
+    // fetch rejects with a TypeError when the request never reaches the server
+    if (error instanceof TypeError || isOffline()) return new AiError('network', message);
+    return httpError(0, message);
+};
+
+const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+    signal?: AbortSignal;
+    // Checked before each retry, e.g. so a reply that already streamed text isn't started over
+    canRetry?: () => boolean;
+}
+
+/**
+ * Runs `request`, retrying the transient failures with exponential backoff. Errors are
+ * rethrown as AiError; aborts are rethrown unchanged. Nothing is logged here; the
+ * caller that finally gives up logs the error once.
+ */
+export const withRetries = async <T>(request: () => Promise<T>, { signal, canRetry }: RetryOptions = {}): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) throw error;
+            const aiError = toAiError(error);
+            const retryable = RETRYABLE_KINDS.includes(aiError.kind)
+                && attempt < MAX_RETRIES
+                && !(aiError.kind === 'network' && isOffline())
+                && (aiError.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS
+                && (canRetry?.() ?? true);
+            if (!retryable) throw aiError;
+            const backoff = BASE_DELAY_MS * 2 ** attempt + Math.random() * BASE_DELAY_MS;
+            await wait(Math.max(backoff, aiError.retryAfterMs ?? 0), signal);
+        }
+    }
+};
+
+/** The translated message to show for a failed AI request */
+export const getAiErrorMessage = (
+    error: unknown,
+    config: AiConfig,
+    t: (key: string, options?: Record<string, string | number>) => string
+): string => {
+    const aiError = toAiError(error);
+    switch (aiError.kind) {
+        case 'rate_limit':
+            return aiError.retryAfterMs
+                ? t('ai.errors.rate_limit_wait', { seconds: Math.ceil(aiError.retryAfterMs / 1000) })
+                : t('ai.errors.rate_limit');
+        case 'model_unavailable':
+            return t('ai.errors.model_unavailable', { model: config.aiModel });
+        case 'network':
+            return t(isOffline() ? 'ai.errors.offline' : 'ai.errors.network');
+        default:
+            return t(`ai.errors.${aiError.kind}`);
+    }
+};
@@ -0,0 +1,103 @@
+import { AiProviderKind, AppState } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiProvider } from './providers/openAiProvider';
+
+// The subset of JSON Schema the prompts use; each provider translates it to its own dialect
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    enum?: string[];
+    required?: string[];
+}
+
+export interface AiChatMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface AiTool {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface AiToolCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface AiChatRequest {
+    systemInstruction: string;
+    messages: AiChatMessage[];
+    tools: AiTool[];
+    onText: (delta: string) => void;
+    onToolCall: (call: AiToolCall) => void;
+    signal?: AbortSignal;
+}
+
+export interface AiJsonRequest {
+    prompt: string;
+    schema: JsonSchema;
+    image?: string; // base64 JPEG
+    signal?: AbortSignal;
+}
+
+export interface AiProvider {
+    /** Streams a reply, resolving once the stream ends. Throws on failure, including aborts. */
+    streamChat(request: AiChatRequest): Promise<void>;
+    /** Resolves with the parsed JSON response, which is expected to match `request.schema`. Throws on failure, including aborts. */
+    generateJson(request: AiJsonRequest): Promise<unknown>;
+    /** Models the endpoint reports as available, when it can list them */
+    listModels?(): Promise<string[]>;
+}
+
+export type AiConfig = Pick<AppState, 'aiProvider' | 'apiKey' | 'aiModel' | 'aiBaseUrl'>;
+
+export interface AiModelOption {
+    id: string;
+    labelKey?: string; // translation key, falling back to the id
+}
+
+export interface AiProviderInfo {
+    models: AiModelOption[];
+    defaultBaseUrl: string; // empty when the provider has a fixed endpoint
+    requiresApiKey: boolean;
+}
+
+const GEMINI_MODELS: AiModelOption[] = [
+    { id: 'gemini-2.5-flash-lite', labelKey: 'settings.model.flash-lite' },
+    { id: 'gemini-2.0-flash', labelKey: 'settings.model.flash' },
+    { id: 'gemini-2.5-flash', labelKey: 'settings.model.25flash' },
+];
+
+export const AI_PROVIDERS: Record<AiProviderKind, AiProviderInfo> = {
+    'gemini': { models: GEMINI_MODELS, defaultBaseUrl: '', requiresApiKey: true },
+    'gemini-proxy': { models: GEMINI_MODELS, defaultBaseUrl: 'https://ai-proxy.chatkit.app/generativelanguage', requiresApiKey: true },
+    // Local servers such as Ollama or llama.cpp usually run without a key
+    'openai': {
+        models: [{ id: 'gpt-4o-mini' }, { id: 'gpt-4o' }, { id: 'llama3.1' }, { id: 'qwen2.5' }],
+        defaultBaseUrl: 'http://localhost:11434/v1',
+        requiresApiKey: false,
+    },
+};
+
+export const isAiConfigured = (config: AiConfig): boolean => {
+    const info = AI_PROVIDERS[config.aiProvider];
+    if (info.requiresApiKey && !config.apiKey) return false;
+    if (info.defaultBaseUrl && !config.aiBaseUrl.trim()) return false;
+    return config.aiModel.trim() !== '';
+};
+
+export const createAiProvider = (config: AiConfig): AiProvider => {
+    const baseUrl = config.aiBaseUrl.trim().replace(/\/+$/, '');
+    switch (config.aiProvider) {
+        case 'openai':
+            return createOpenAiProvider(baseUrl, config.apiKey, config.aiModel);
+        case 'gemini-proxy':
+            return createGeminiProvider(config.apiKey || '', config.aiModel, baseUrl);
+        case 'gemini':
+            return createGeminiProvider(config.apiKey || '', config.aiModel);
+    }
+};
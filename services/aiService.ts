@@ -0,0 +1,434 @@
+import { DailyLog, FoodAnalysis, DetectedFoodItem, UserProfile, ChatMessage, AiAction, FoodEntry } from '../types';
+import { AiConfig, AiTool, AiToolCall, JsonSchema, createAiProvider, isAiConfigured } from './aiProvider';
+import { AiError, toAiError, withRetries } from './aiErrors';
+
+// Optional, since labels and estimates often leave some of these out
+const getMicronutrientSchema = (language: 'en' | 'zh-TW'): JsonSchema => {
+    const field = (en: string, zh: string): JsonSchema => ({ type: 'number', description: language === 'zh-TW' ? zh : en });
+    return {
+        type: 'object',
+        description: language === 'zh-TW' ? '該份量的估算微量營養素' : 'The estimated micronutrients for the serving',
+        properties: {
+            fiber: field('Dietary fiber in grams', '膳食纖維（克）'),
+            sugar: field('Sugars in grams', '糖（克）'),
+            saturatedFat: field('Saturated fat in grams', '飽和脂肪（克）'),
+            sodium: field('Sodium in milligrams', '鈉（毫克）'),
+            cholesterol: field('Cholesterol in milligrams', '膽固醇（毫克）'),
+            potassium: field('Potassium in milligrams', '鉀（毫克）'),
+            calcium: field('Calcium in milligrams', '鈣（毫克）'),
+            iron: field('Iron in milligrams', '鐵（毫克）'),
+            vitaminC: field('Vitamin C in milligrams', '維生素 C（毫克）'),
+            vitaminD: field('Vitamin D in micrograms', '維生素 D（微克）'),
+        },
+    };
+};
+
+// Built by the caller so the exact prompt can be shown to the user before it is sent
+export const getSystemInstruction = (todayLog: DailyLog, dailyGoal: number, userProfile: UserProfile, language: 'en' | 'zh-TW', historyContext = ''): string => {
+    const totalIntake = todayLog.food.reduce((sum, item) => sum + item.calories, 0);
+    const totalBurned = todayLog.exercise.reduce((sum, item) => sum + item.calories, 0);
+    const netCalories = totalIntake - totalBurned;
+
+    let profileInfo = '';
+    if (language === 'zh-TW') {
+        profileInfo = '用戶個人資料:\n';
+        if (userProfile.age) profileInfo += `- 年齡: ${userProfile.age}\n`;
+        if (userProfile.sex) profileInfo += `- 性別: ${userProfile.sex === 'male' ? '男性' : '女性'}\n`;
+        if (userProfile.weight) profileInfo += `- 體重: ${userProfile.weight} kg\n`;
+        if (userProfile.height) profileInfo += `- 身高: ${userProfile.height} cm\n`;
+
+        return `你是一位友善且鼓勵人心的健身與營養助理。根據用戶的數據和個人資料，為他們的對話提供有幫助且簡潔的回答。請用繁體中文回答。
+
+${profileInfo}
+用戶的每日卡路里目標: ${dailyGoal} 大卡
+
+今日記錄:
+- 攝取食物:
+${todayLog.food.length > 0 ? todayLog.food.map(f => `  - ${f.name} (${f.calories} 大卡, id: ${f.id})`).join('\n') : '  - 尚未記錄'}
+- 完成的運動:
+${todayLog.exercise.length > 0 ? todayLog.exercise.map(e => `  - ${e.name} (${e.duration} 分鐘, 燃燒 ${e.calories} 大卡)`).join('\n') : '  - 尚未記錄'}
+
+總攝取量: ${totalIntake} 大卡
+總燃燒量: ${totalBurned} 大卡
+淨卡路里: ${netCalories} 大卡
+${historyContext && `\n${historyContext}\n`}
+當用戶告訴你他們吃了什麼、做了什麼運動、想刪除某筆食物記錄或量了體重時，請呼叫對應的函式提出記錄，每個項目呼叫一次，並簡短說明你的估算。用戶確認之前不會有任何記錄被寫入。
+
+基於以上資訊和對話歷史，回答用戶。`;
+    }
+
+    profileInfo = "User's Profile:\n";
+    if (userProfile.age) profileInfo += `- Age: ${userProfile.age}\n`;
+    if (userProfile.sex) profileInfo += `- Sex: ${userProfile.sex}\n`;
+    if (userProfile.weight) profileInfo += `- Weight: ${userProfile.weight} kg\n`;
+    if (userProfile.height) profileInfo += `- Height: ${userProfile.height} cm\n`;
+
+    return `You are a friendly and encouraging fitness and nutrition assistant. Provide helpful and concise answers to the user's conversation based on their data and profile. Respond in English.
+
+${profileInfo}
+User's Daily Calorie Goal: ${dailyGoal} kcal
+
+Today's Log:
+- Food Intake:
+${todayLog.food.length > 0 ? todayLog.food.map(f => `  - ${f.name} (${f.calories} kcal, id: ${f.id})`).join('\n') : '  - Not logged yet'}
+- Exercises Completed:
+${todayLog.exercise.length > 0 ? todayLog.exercise.map(e => `  - ${e.name} (${e.duration} min, burned ${e.calories} kcal)`).join('\n') : '  - Not logged yet'}
+
+Total Intake: ${totalIntake} kcal
+Total Burned: ${totalBurned} kcal
+Net Calories: ${netCalories} kcal
+${historyContext && `\n${historyContext}\n`}
+When the user tells you what they ate, what exercise they did, asks to remove a food entry, or reports their weight, call the matching function to propose the log entry, once per item, and briefly explain your estimate. Nothing is logged until the user confirms it.
+
+Based on the information above and the conversation history, answer the user.`;
+};
+
+const getLogTools = (language: 'en' | 'zh-TW'): AiTool[] => {
+    const describe = (en: string, zh: string) => language === 'zh-TW' ? zh : en;
+    const field = (type: JsonSchema['type'], en: string, zh: string): JsonSchema => ({ type, description: describe(en, zh) });
+    return [
+        {
+            name: 'log_food',
+            description: describe('Propose adding a food to the log', '提議新增一筆食物記錄'),
+            parameters: {
+                type: 'object',
+                properties: {
+                    name: field('string', 'Name of the food, including the amount', '食物名稱，包含份量'),
+                    calories: field('number', 'Estimated calories (kcal)', '估算的卡路里（大卡）'),
+                    protein: field('number', 'Estimated protein in grams', '估算的蛋白質（克）'),
+                    carbs: field('number', 'Estimated carbohydrates in grams', '估算的碳水化合物（克）'),
+                    fat: field('number', 'Estimated fat in grams', '估算的脂肪（克）'),
+                    meal: { type: 'string', enum: ['breakfast', 'lunch', 'dinner', 'snack'], description: describe('The meal it belongs to', '所屬的餐別') },
+                },
+                required: ['name', 'calories', 'protein', 'carbs', 'fat', 'meal'],
+            },
+        },
+        {
+            name: 'log_exercise',
+            description: describe('Propose adding an exercise to the log', '提議新增一筆運動記錄'),
+            parameters: {
+                type: 'object',
+                properties: {
+                    name: field('string', 'Name of the exercise', '運動名稱'),
+                    duration: field('number', 'Duration in minutes', '持續時間（分鐘）'),
+                    calories: field('number', 'Estimated calories burned (kcal)', '估算的燃燒卡路里（大卡）'),
+                },
+                required: ['name', 'duration', 'calories'],
+            },
+        },
+        {
+            name: 'remove_food',
+            description: describe("Propose removing one of today's food entries", '提議刪除今日的一筆食物記錄'),
+            parameters: {
+                type: 'object',
+                properties: { id: field('string', 'The id of the food entry from the log above', '上方記錄中該食物的 id') },
+                required: ['id'],
+            },
+        },
+        {
+            name: 'log_weight',
+            description: describe('Propose recording a weigh-in', '提議記錄一次體重'),
+            parameters: {
+                type: 'object',
+                properties: { weight: field('number', 'Body weight in kg', '體重（公斤）') },
+                required: ['weight'],
+            },
+        },
+    ];
+};
+
+const MEALS: FoodEntry['meal'][] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// Turns a function call into a pending proposal, or null when its arguments are unusable
+const toAiAction = (call: AiToolCall, id: string, date: string, todayLog: DailyLog): AiAction | null => {
+    const args = call.args;
+    const num = (key: string) => Math.max(0, Math.round(Number(args[key]) || 0));
+    const text = (key: string) => typeof args[key] === 'string' ? (args[key] as string).trim() : '';
+
+    switch (call.name) {
+        case 'log_food': {
+            if (!text('name')) return null;
+            const meal = MEALS.includes(args.meal as FoodEntry['meal']) ? args.meal as FoodEntry['meal'] : 'snack';
+            return { id, kind: 'add_food', status: 'pending', date, food: { name: text('name'), calories: num('calories'), protein: num('protein'), carbs: num('carbs'), fat: num('fat'), meal } };
+        }
+        case 'log_exercise': {
+            if (!text('name') || !num('duration')) return null;
+            return { id, kind: 'add_exercise', status: 'pending', date, exercise: { name: text('name'), duration: num('duration'), calories: num('calories') } };
+        }
+        case 'remove_food': {
+            const entry = todayLog.food.find(f => f.id === text('id'));
+            if (!entry) return null;
+            const { id: foodId, ...food } = entry;
+            return { id, kind: 'remove_food', status: 'pending', date, foodId, food };
+        }
+        case 'log_weight': {
+            const weight = Number(args.weight);
+            if (!Number.isFinite(weight) || weight <= 0) return null;
+            return { id, kind: 'log_weight', status: 'pending', date, weight: Math.round(weight * 10) / 10 };
+        }
+        default:
+            return null;
+    }
+};
+
+// Past proposals are replayed as text so the model knows what was already logged
+const describeActions = (actions: AiAction[]): string => actions.map(action => {
+    const subject = action.kind === 'add_exercise'
+        ? `${action.exercise?.name} (${action.exercise?.duration} min, ${action.exercise?.calories} kcal)`
+        : action.kind === 'log_weight'
+            ? `${action.weight} kg`
+            : `${action.food?.name} (${action.food?.calories} kcal)`;
+    return `[${action.kind}: ${subject} — ${action.status}]`;
+}).join('\n');
+
+export interface AiReply {
+    text: string;
+    actions: AiAction[];
+    error?: AiError; // set when the reply failed, possibly after part of it arrived
+}
+
+// Streams the reply through onText as it grows and resolves with the full text and any
+// proposed log changes. When `signal` aborts, resolves with whatever had arrived so far.
+// Failures are retried until the first text or tool call arrives, then reported in `error`.
+export const streamAiAdvice = async (
+    prompt: string,
+    chatHistory: ChatMessage[],
+    todayLog: DailyLog,
+    logDate: string,
+    systemInstruction: string,
+    config: AiConfig,
+    language: 'en' | 'zh-TW',
+    onText: (text: string) => void,
+    signal?: AbortSignal
+): Promise<AiReply> => {
+    if (!isAiConfigured(config)) {
+        return { text: '', actions: [], error: new AiError('not_configured', 'AI provider is not configured.') };
+    }
+
+    let text = '';
+    const actions: AiAction[] = [];
+    const now = Date.now();
+
+    const provider = createAiProvider(config);
+    try {
+        await withRetries(() => provider.streamChat({
+            systemInstruction,
+            messages: [...chatHistory.map(msg => ({
+                role: msg.role,
+                text: msg.actions?.length ? [msg.text, describeActions(msg.actions)].filter(Boolean).join('\n\n') : msg.text,
+            })), { role: 'user' as const, text: prompt }],
+            tools: getLogTools(language),
+            onText: (delta) => {
+                text += delta;
+                onText(text);
+            },
+            onToolCall: (call) => {
+                const action = toAiAction(call, `${now}-${actions.length}`, logDate, todayLog);
+                if (action) actions.push(action);
+            },
+            signal,
+        }), { signal, canRetry: () => text === '' && actions.length === 0 });
+        return { text, actions };
+    } catch (error) {
+        if (signal?.aborted) return { text, actions };
+        console.error("Error calling AI provider:", error);
+        return { text, actions, error: toAiError(error) };
+    }
+};
+
+
+export const getAiFoodAnalysis = async (
+    base64Image: string,
+    config: AiConfig,
+    language: 'en' | 'zh-TW',
+    signal?: AbortSignal
+): Promise<DetectedFoodItem[]> => {
+    if (!isAiConfigured(config)) {
+        throw new AiError('not_configured', "AI provider is not configured.");
+    }
+
+    try {
+        const prompt = language === 'zh-TW'
+            ? "分析這張圖片裡的食物。辨識每一個不同的食物品項（例如白飯、雞肉、蔬菜分別列出），估算每一項在圖中的份量，並估算該份量的卡路里、蛋白質、碳水化合物和脂肪（以克為單位），以及膳食纖維、糖、飽和脂肪、鈉等微量營養素。請回報每一項所假設的份量數量、單位與重量（克），以及 0 到 1 之間的辨識信心度。如果無法辨識任何食物，請回傳空的 items 陣列。"
+            : "Analyze the food in this image. Identify every distinct food item (for example list rice, chicken and vegetables separately), estimate the portion of each item shown, and estimate the calories, protein, carbs, and fat in grams for that portion, along with fiber, sugar, saturated fat, sodium and the other micronutrients. For each item, report the serving quantity, unit and weight in grams you assumed, and a confidence between 0 and 1. If you cannot identify any food, return an empty items array.";
+
+        const responseSchema: JsonSchema = {
+            type: 'object',
+            properties: {
+                items: {
+                    type: 'array',
+                    description: language === 'zh-TW' ? '圖片中辨識出的食物品項' : 'The food items detected in the image',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            foodName: {
+                                type: 'string',
+                                description: language === 'zh-TW' ? '食物的名稱' : 'The name of the food',
+                            },
+                            calories: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '估算的卡路里' : 'The estimated calories',
+                            },
+                            protein: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '估算的蛋白質（克）' : 'The estimated protein in grams',
+                            },
+                            carbs: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '估算的碳水化合物（克）' : 'The estimated carbohydrates in grams',
+                            },
+                            fat: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '估算的脂肪（克）' : 'The estimated fat in grams',
+                            },
+                            servingQuantity: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '估算所依據的份量數量，例如 1 或 150' : 'The quantity of the serving the estimate assumes, e.g. 1 or 150',
+                            },
+                            servingUnit: {
+                                type: 'string',
+                                enum: ['g', 'ml', 'piece', 'cup', 'serving'],
+                                description: language === 'zh-TW' ? '份量的單位' : 'The unit of the serving quantity',
+                            },
+                            servingGrams: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '整份份量的估算重量（克）' : 'The estimated total weight of the serving in grams',
+                            },
+                            micronutrients: getMicronutrientSchema(language),
+                            confidence: {
+                                type: 'number',
+                                description: language === 'zh-TW' ? '辨識信心度，介於 0 到 1 之間' : 'How confident the identification is, between 0 and 1',
+                            },
+                        },
+                        required: ['foodName', 'calories', 'protein', 'carbs', 'fat', 'servingQuantity', 'servingUnit', 'servingGrams', 'confidence'],
+                    },
+                },
+            },
+            required: ['items'],
+        };
+
+        const provider = createAiProvider(config);
+        // An empty list means no food was recognised; the caller reports that separately from failures
+        return await withRetries(async () => {
+            const result = await provider.generateJson({ prompt, schema: responseSchema, image: base64Image, signal }) as { items?: DetectedFoodItem[] };
+            if (!Array.isArray(result.items)) throw new AiError('malformed', 'Response has no items list');
+            return result.items;
+        }, { signal });
+
+    } catch (error) {
+        if (!signal?.aborted) console.error("Error analyzing food image:", error);
+        throw error;
+    }
+};
+
+export const getAiFoodNutrition = async (
+    foodName: string,
+    config: AiConfig,
+    language: 'en' | 'zh-TW',
+    signal?: AbortSignal
+): Promise<FoodAnalysis> => {
+    if (!isAiConfigured(config)) {
+        throw new AiError('not_configured', "AI provider is not configured.");
+    }
+
+    try {
+        const prompt = language === 'zh-TW'
+            ? `估算一份標準份量的 "${foodName}" 的營養資訊（包含膳食纖維、鈉等微量營養素），並回報你所假設的份量數量、單位與重量（克）。`
+            : `Estimate the nutritional information for a standard serving of "${foodName}", including fiber, sodium and the other micronutrients, and report the serving quantity, unit and weight in grams you assumed.`;
+
+        const responseSchema: JsonSchema = {
+            type: 'object',
+            properties: {
+                foodName: {
+                    type: 'string',
+                    description: language === 'zh-TW' ? '食物的名稱' : 'The name of the food',
+                },
+                calories: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '估算的卡路里' : 'The estimated calories',
+                },
+                protein: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '估算的蛋白質（克）' : 'The estimated protein in grams',
+                },
+                carbs: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '估算的碳水化合物（克）' : 'The estimated carbohydrates in grams',
+                },
+                fat: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '估算的脂肪（克）' : 'The estimated fat in grams',
+                },
+                servingQuantity: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '估算所依據的份量數量，例如 1 或 150' : 'The quantity of the serving the estimate assumes, e.g. 1 or 150',
+                },
+                servingUnit: {
+                    type: 'string',
+                    enum: ['g', 'ml', 'piece', 'cup', 'serving'],
+                    description: language === 'zh-TW' ? '份量的單位' : 'The unit of the serving quantity',
+                },
+                servingGrams: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '整份份量的估算重量（克）' : 'The estimated total weight of the serving in grams',
+                },
+                micronutrients: getMicronutrientSchema(language),
+            },
+            required: ['foodName', 'calories', 'protein', 'carbs', 'fat', 'servingQuantity', 'servingUnit', 'servingGrams'],
+        };
+
+        const provider = createAiProvider(config);
+        return await withRetries(async () => {
+            const result = await provider.generateJson({ prompt, schema: responseSchema, signal }) as FoodAnalysis;
+            if (typeof result.calories !== 'number') throw new AiError('malformed', 'Response has no calorie estimate');
+            return result;
+        }, { signal });
+
+    } catch (error) {
+        if (!signal?.aborted) console.error("Error getting food nutrition:", error);
+        throw error;
+    }
+};
+
+export const getAiExerciseCalories = async (
+    exerciseName: string,
+    duration: number,
+    userProfile: UserProfile,
+    config: AiConfig,
+    language: 'en' | 'zh-TW',
+    signal?: AbortSignal
+): Promise<number> => {
+    if (!isAiConfigured(config)) {
+        throw new AiError('not_configured', "AI provider is not configured.");
+    }
+
+    try {
+        const weight = userProfile.weight || 70; // Default to 70kg if not set
+
+        const prompt = language === 'zh-TW'
+            ? `估算一個體重 ${weight} 公斤的人做 "${exerciseName}" ${duration} 分鐘所燃燒的卡路里。請只回傳一個數字。`
+            : `Estimate the calories burned for a ${weight}kg person doing "${exerciseName}" for ${duration} minutes. Return only a number.`;
+
+        const responseSchema: JsonSchema = {
+            type: 'object',
+            properties: {
+                calories: {
+                    type: 'number',
+                    description: language === 'zh-TW' ? '估算的燃燒卡路里' : 'The estimated calories burned',
+                },
+            },
+            required: ['calories'],
+        };
+
+        const provider = createAiProvider(config);
+        return await withRetries(async () => {
+            const result = await provider.generateJson({ prompt, schema: responseSchema, signal }) as { calories?: unknown };
+            if (typeof result.calories !== 'number') throw new AiError('malformed', 'Response has no calorie estimate');
+            return result.calories;
+        }, { signal });
+
+    } catch (error) {
+        if (!signal?.aborted) console.error("Error getting exercise calories:", error);
+        throw error;
+    }
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import type { AiProvider, JsonSchema } from '../aiProvider';
+import { AiError } from '../aiErrors';
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    number: Type.NUMBER,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: GEMINI_TYPES[schema.type],
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+});
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+];
+
+// Blocked prompts and replies come back as ordinary responses rather than HTTP errors
+const throwIfBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new AiError('safety', `Blocked by Gemini: ${blockReason || finishReason}`);
+    }
+};
+
+/**
+ * Talks to the Gemini API through the official SDK. A base URL routes the requests
+ * through a proxy that mirrors the generativelanguage.googleapis.com paths.
+ */
+export const createGeminiProvider = (apiKey: string, model: string, baseUrl?: string): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+    return {
+        async streamChat({ systemInstruction, messages, tools, onText, onToolCall, signal }) {
+            const stream = await ai.models.generateContentStream({
+                model,
+                contents: messages.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+                config: {
+                    systemInstruction,
+                    thinkingConfig: { thinkingBudget: 0 },
+                    // Search grounding can't be combined with function declarations in one request
+                    tools: tools.length > 0
+                        ? [{ functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parameters: toGeminiSchema(tool.parameters) })) }]
+                        : undefined,
+                    abortSignal: signal,
+                },
+            });
+
+            for await (const chunk of stream) {
+                if (signal?.aborted) break;
+                throwIfBlocked(chunk);
+                chunk.functionCalls?.forEach(call => {
+                    if (call.name) onToolCall({ name: call.name, args: call.args || {} });
+                });
+                if (chunk.text) onText(chunk.text);
+            }
+        },
+
+        async generateJson({ prompt, schema, image, signal }) {
+            const parts: Part[] = [{ text: prompt }];
+            if (image) parts.unshift({ inlineData: { mimeType: 'image/jpeg', data: image } });
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                    abortSignal: signal,
+                },
+            });
+            throwIfBlocked(response);
+            if (!response.text) throw new AiError('malformed', 'Response was empty');
+            return JSON.parse(response.text.trim());
+        },
+    };
+};
@@ -0,0 +1,118 @@
+import type { AiProvider } from '../aiProvider';
+import { AiError, httpError, parseRetryAfterHeader } from '../aiErrors';
+
+interface StreamedToolCall {
+    name: string;
+    arguments: string;
+}
+
+// Local models sometimes wrap JSON in a code fence or add a sentence around it
+const parseJsonContent = (content: string): unknown => {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end < start) throw new AiError('malformed', 'Response did not contain JSON');
+    return JSON.parse(content.slice(start, end + 1));
+};
+
+/**
+ * Talks to any endpoint implementing the OpenAI chat completions API: OpenAI itself,
+ * or a local Ollama or llama.cpp server.
+ */
+export const createOpenAiProvider = (baseUrl: string, apiKey: string | null, model: string): AiProvider => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+        if (!response.ok) {
+            const message = `${response.status} ${response.statusText}: ${await response.text()}`;
+            throw httpError(response.status, message, parseRetryAfterHeader(response.headers.get('Retry-After')));
+        }
+        return response;
+    };
+
+    return {
+        async streamChat({ systemInstruction, messages, tools, onText, onToolCall, signal }) {
+            const response = await request('/chat/completions', {
+                method: 'POST',
+                signal,
+                body: JSON.stringify({
+                    model,
+                    stream: true,
+                    messages: [
+                        { role: 'system', content: systemInstruction },
+                        ...messages.map(msg => ({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.text })),
+                    ],
+                    tools: tools.length > 0
+                        ? tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }))
+                        : undefined,
+                }),
+            });
+            if (!response.body) throw new AiError('malformed', 'Response has no body');
+
+            // Tool call arguments arrive in fragments keyed by the call's index
+            const toolCalls: StreamedToolCall[] = [];
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            const handleLine = (line: string) => {
+                if (!line.startsWith('data:')) return;
+                const data = line.slice(5).trim();
+                if (!data || data === '[DONE]') return;
+                const choice = JSON.parse(data).choices?.[0];
+                if (choice?.finish_reason === 'content_filter') throw new AiError('safety', 'Reply was blocked by the content filter');
+                const delta = choice?.delta;
+                if (delta?.content) onText(delta.content);
+                delta?.tool_calls?.forEach((call: { index: number; function?: { name?: string; arguments?: string } }) => {
+                    const current = toolCalls[call.index] || (toolCalls[call.index] = { name: '', arguments: '' });
+                    current.name += call.function?.name || '';
+                    current.arguments += call.function?.arguments || '';
+                });
+            };
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                lines.forEach(handleLine);
+            }
+            handleLine(buffer);
+
+            toolCalls.forEach(call => {
+                if (!call?.name) return;
+                try {
+                    onToolCall({ name: call.name, args: call.arguments ? JSON.parse(call.arguments) : {} });
+                } catch (error) {
+                    console.error(`Ignoring tool call ${call.name} with malformed arguments`, error);
+                }
+            });
+        },
+
+        async generateJson({ prompt, schema, image, signal }) {
+            const content = image
+                ? [{ type: 'text', text: prompt }, { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image}` } }]
+                : prompt;
+            const response = await request('/chat/completions', {
+                method: 'POST',
+                signal,
+                body: JSON.stringify({
+                    model,
+                    messages: [{ role: 'user', content }],
+                    response_format: { type: 'json_schema', json_schema: { name: 'result', schema } },
+                }),
+            });
+            const choice = (await response.json()).choices?.[0];
+            if (choice?.finish_reason === 'content_filter') throw new AiError('safety', 'Response was blocked by the content filter');
+            return parseJsonContent(choice?.message?.content || '');
+        },
+
+        async listModels() {
+            const response = await request('/models');
+            const result = await response.json();
+            return ((result.data || []) as { id: string }[]).map(entry => entry.id).sort();
+        },
+    };
+};
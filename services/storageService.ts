@@ -0,0 +1,210 @@
+import { AppState, DailyLog } from '../types';
+
+const DB_NAME = 'calorieTracker';
+const LEGACY_STORAGE_KEY = 'calorieTrackerState';
+const STATE_STORE = 'state';
+const LOGS_STORE = 'logs';
+const SETTINGS_KEY = 'settings';
+const CHAT_KEY = 'chatHistory';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// migrations[n] upgrades the database from version n to n + 1. Append new steps, never edit old ones.
+const migrations: Migration[] = [
+  // v1: settings and chat history in one store, each day's log under its date in another
+  (db) => {
+    db.createObjectStore(STATE_STORE);
+    db.createObjectStore(LOGS_STORE);
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'write' | 'read';
+
+export class StorageError extends Error {
+  readonly kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, message: string) {
+    super(message);
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
+
+const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+};
+
+const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new StorageError(isQuotaError(error) ? 'quota' : 'write', message);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new StorageError('unavailable', 'IndexedDB is not supported'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction as IDBTransaction;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](request.result, transaction);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new StorageError('unavailable', request.error?.message || 'Could not open database'));
+      request.onblocked = () => reject(new StorageError('unavailable', 'Database upgrade blocked by another tab'));
+    });
+    // Let a later call retry instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Everything except the per-day logs and the chat history, which are stored separately
+const getSettings = (state: Partial<AppState>): Partial<AppState> => {
+  const { logs: _logs, chatHistory: _chatHistory, ...settings } = state;
+  return settings;
+};
+
+const settingsChanged = (prev: AppState, next: AppState): boolean => {
+  return (Object.keys(next) as (keyof AppState)[]).some(key => key !== 'logs' && key !== 'chatHistory' && prev[key] !== next[key]);
+};
+
+const writeFullState = (db: IDBDatabase, state: Partial<AppState>): Promise<void> => {
+  const transaction = db.transaction([STATE_STORE, LOGS_STORE], 'readwrite');
+  const stateStore = transaction.objectStore(STATE_STORE);
+  const logsStore = transaction.objectStore(LOGS_STORE);
+  stateStore.put(getSettings(state), SETTINGS_KEY);
+  stateStore.put(state.chatHistory || [], CHAT_KEY);
+  logsStore.clear();
+  Object.entries(state.logs || {}).forEach(([date, log]) => logsStore.put(log, date));
+  return transactionDone(transaction);
+};
+
+const readLegacyState = (): Partial<AppState> | null => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+export interface LoadedState {
+  state: Partial<AppState>;
+  // Read from the old localStorage blob, which is stored as it was, without schema migrations
+  fromLegacy: boolean;
+}
+
+/**
+ * Loads the persisted state, moving the old single localStorage blob into
+ * IndexedDB the first time. Falls back to that blob if IndexedDB can't be opened.
+ * Returns null when nothing has been saved yet. Rejects if the data can't be read
+ * or the move fails, in which case nothing should be saved over it.
+ */
+export const loadState = async (): Promise<LoadedState | null> => {
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase();
+  } catch (error) {
+    console.error("IndexedDB unavailable, falling back to localStorage", error);
+    const legacy = readLegacyState();
+    return legacy && { state: legacy, fromLegacy: true };
+  }
+
+  const transaction = db.transaction([STATE_STORE, LOGS_STORE], 'readonly');
+  const stateStore = transaction.objectStore(STATE_STORE);
+  const logsStore = transaction.objectStore(LOGS_STORE);
+  const [settings, chatHistory, dates, logs] = await Promise.all([
+    requestToPromise(stateStore.get(SETTINGS_KEY)),
+    requestToPromise(stateStore.get(CHAT_KEY)),
+    requestToPromise(logsStore.getAllKeys()),
+    requestToPromise(logsStore.getAll()),
+  ]);
+
+  if (settings) {
+    const logsByDate: Record<string, DailyLog> = {};
+    dates.forEach((date, index) => { logsByDate[date as string] = logs[index]; });
+    return { state: { ...settings, chatHistory: chatHistory || [], logs: logsByDate }, fromLegacy: false };
+  }
+
+  const legacy = readLegacyState();
+  if (!legacy) return null;
+  try {
+    await writeFullState(db, legacy);
+  } catch (error) {
+    // Later saves only write diffs, so carrying on would leave a partial copy in IndexedDB
+    throw new StorageError('read', error instanceof Error ? error.message : String(error));
+  }
+  // Only drop the old copy once the new one is committed
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return { state: legacy, fromLegacy: true };
+};
+
+/**
+ * Persists the changes between two states: only the days whose log changed are
+ * written, and settings and chat history only when they changed.
+ * Pass null as the previous state to rewrite everything.
+ * Rejects with a StorageError, whose kind is 'quota' when storage is full.
+ */
+export const saveState = async (prev: AppState | null, next: AppState): Promise<void> => {
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase();
+  } catch {
+    try {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(next));
+      return;
+    } catch (error) {
+      throw toStorageError(error);
+    }
+  }
+
+  try {
+    if (!prev) {
+      await writeFullState(db, next);
+      return;
+    }
+
+    const transaction = db.transaction([STATE_STORE, LOGS_STORE], 'readwrite');
+    const stateStore = transaction.objectStore(STATE_STORE);
+    const logsStore = transaction.objectStore(LOGS_STORE);
+
+    if (settingsChanged(prev, next)) {
+      stateStore.put(getSettings(next), SETTINGS_KEY);
+    }
+    if (prev.chatHistory !== next.chatHistory) {
+      stateStore.put(next.chatHistory, CHAT_KEY);
+    }
+    if (prev.logs !== next.logs) {
+      Object.entries(next.logs).forEach(([date, log]) => {
+        if (prev.logs[date] !== log) logsStore.put(log, date);
+      });
+      Object.keys(prev.logs).forEach(date => {
+        if (!(date in next.logs)) logsStore.delete(date);
+      });
+    }
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+};
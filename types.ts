@@ -1,5 +1,6 @@
 // i18n Types
 export type SupportedLanguage = 'en' | 'zh-TW';
+export type AiProviderKind = 'gemini' | 'gemini-proxy' | 'openai';
 
 export interface TranslationKeys {
   appTitle: string;
@@ -107,7 +108,6 @@ export interface TranslationKeys {
       desc: string;
       export: string;
       import: string;
-      import_confirm: string;
       import_success: string;
       import_error: string;
     };
@@ -141,6 +141,43 @@ export interface UseTranslationReturn {
   error: string | null;
 }
 
+export type ServingUnit = 'g' | 'ml' | 'piece' | 'cup' | 'serving';
+
+export interface Nutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// Amounts for the logged portion: grams for fiber, sugar and saturated fat,
+// micrograms for vitamin D and milligrams for the rest
+export interface Micronutrients {
+  fiber?: number;
+  sugar?: number;
+  saturatedFat?: number;
+  sodium?: number;
+  cholesterol?: number;
+  potassium?: number;
+  calcium?: number;
+  iron?: number;
+  vitaminC?: number;
+  vitaminD?: number;
+}
+
+export type Micronutrient = keyof Micronutrients;
+
+export interface NutrientGoal {
+  amount: number;
+  kind: 'limit' | 'target'; // stay under a limit, reach a target
+}
+
+export interface Portion {
+  quantity: number;
+  unit: ServingUnit;
+  gramsPerUnit: number; // weight of one unit, 1 for g and ml
+}
+
 export interface FoodEntry {
   id: string;
   name: string;
@@ -149,6 +186,49 @@ export interface FoodEntry {
   carbs: number;
   fat: number;
   meal: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  time?: string; // HH:MM eaten at; missing on entries imported without one
+  portion?: Portion;
+  per100g?: Nutrition;
+  micronutrients?: Micronutrients;
+}
+
+export interface CustomFood {
+  id: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  portion?: Portion;
+  per100g?: Nutrition;
+  micronutrients?: Micronutrients;
+}
+
+export interface RecipeIngredient {
+  id: string;
+  name: string;
+  portion: Portion;
+  per100g: Nutrition;
+  micronutrients?: Micronutrients; // for the portion
+  customFoodId?: string; // set when added from My Foods, whose later edits it follows
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  servings: number; // how many servings the ingredients make
+  ingredients: RecipeIngredient[];
+}
+
+export interface BarcodeProduct {
+  code: string; // normalized 13-digit EAN
+  name: string;
+  calories: number; // per label serving
+  protein: number;
+  carbs: number;
+  fat: number;
+  portion: Portion; // label serving size
+  per100g?: Nutrition;
 }
 
 export interface ExerciseEntry {
@@ -156,11 +236,42 @@ export interface ExerciseEntry {
   name: string;
   duration: number; // in minutes
   calories: number;
+  met?: number; // set when calories come from the local MET calculator
+  time?: string; // HH:MM performed at
+}
+
+export type FastingProtocol = '14:10' | '16:8' | '18:6' | '20:4';
+
+export interface FastRecord {
+  id: string;
+  start: number; // epoch ms
+  end: number; // epoch ms
+  targetHours: number; // fasting hours of the protocol at the time
+}
+
+export interface FastingState {
+  protocol: FastingProtocol;
+  activeStart: number | null; // epoch ms of the running fast
+  history: FastRecord[];
+}
+
+export interface BodyMeasurement {
+  weight?: number; // kg
+  waist?: number; // cm
+  hip?: number; // cm
+  bodyFat?: number; // percent
+}
+
+export interface WaterEntry {
+  id: string;
+  amount: number; // in ml
+  time?: string; // HH:MM
 }
 
 export interface DailyLog {
   food: FoodEntry[];
   exercise: ExerciseEntry[];
+  water?: WaterEntry[]; // missing on days logged before hydration tracking
 }
 
 export interface FoodAnalysis {
@@ -169,6 +280,14 @@ export interface FoodAnalysis {
     protein: number;
     carbs: number;
     fat: number;
+    servingQuantity?: number;
+    servingUnit?: ServingUnit;
+    servingGrams?: number;
+    micronutrients?: Micronutrients;
+}
+
+export interface DetectedFoodItem extends FoodAnalysis {
+    confidence: number; // 0 to 1
 }
 
 export interface MacronutrientGoals {
@@ -177,6 +296,22 @@ export interface MacronutrientGoals {
   fat: number;
 }
 
+export interface DayTarget {
+  dailyGoal: number;
+  macronutrientGoals: MacronutrientGoals;
+}
+
+export type PlanPhase = 'cut' | 'maintain' | 'bulk';
+
+export interface GoalPlan {
+  phase: PlanPhase;
+  startDate: string;
+  startWeight: number; // kg
+  targetWeight: number; // kg
+  weeklyRate?: number; // kg per week, as a positive magnitude
+  targetDate?: string; // used instead of weeklyRate when set
+}
+
 export interface UserProfile {
   age: number | null;
   sex: 'male' | 'female' | null;
@@ -186,20 +321,49 @@ export interface UserProfile {
 }
 
 export interface AppState {
+  schemaVersion: number;
   dailyGoal: number;
   macronutrientGoals: MacronutrientGoals;
+  plan: GoalPlan | null;
+  weekdayTargets: Partial<Record<number, DayTarget>>; // keyed by day of week, 0 = Sunday
+  dateTargets: Record<string, DayTarget>; // one-off overrides keyed by date
   logs: Record<string, DailyLog>;
-  customFoods: Omit<FoodEntry, 'id' | 'meal'>[];
+  measurements: Record<string, BodyMeasurement>;
+  customFoods: CustomFood[];
+  recipes: Recipe[];
+  products: Record<string, BarcodeProduct>;
+  fasting: FastingState;
+  nutrientGoals: Partial<Record<Micronutrient, NutrientGoal>>;
+  waterContainers: number[]; // quick-add sizes in ml
+  aiProvider: AiProviderKind;
+  aiBaseUrl: string; // endpoint for providers that aren't called directly
   apiKey: string | null;
   aiModel: string;
+  aiContextDays: number; // how many days of history the assistant sees
   language: SupportedLanguage;
+  dayStartHour: number; // hour (0-23) at which a new log day begins
   userProfile: UserProfile;
   chatHistory: ChatMessage[];
 }
 
 export type ActiveView = 'dashboard' | 'log' | 'ai' | 'settings';
 
+export type AiActionKind = 'add_food' | 'add_exercise' | 'remove_food' | 'log_weight';
+
+// A log change proposed by the assistant; nothing is written until the user accepts it
+export interface AiAction {
+    id: string;
+    kind: AiActionKind;
+    status: 'pending' | 'accepted' | 'dismissed' | 'failed';
+    date?: string; // day the proposal was made for; missing on proposals saved before it was recorded
+    food?: Omit<FoodEntry, 'id'>; // add_food, and the entry being removed for remove_food
+    exercise?: Omit<ExerciseEntry, 'id'>;
+    foodId?: string;
+    weight?: number;
+}
+
 export interface ChatMessage {
     role: 'user' | 'model';
     text: string;
+    actions?: AiAction[];
 }
\ No newline at end of file
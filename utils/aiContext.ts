@@ -0,0 +1,122 @@
+import { AppState, SupportedLanguage } from '../types';
+import { addDaysToKey } from './date';
+import { resolveTargets } from './targets';
+
+export const CONTEXT_WINDOWS = [7, 14, 30];
+
+// Upper bound for the history section of the system prompt
+export const CONTEXT_TOKEN_BUDGET = 1200;
+
+// Calories within this fraction of the goal count as on target
+const ADHERENCE_TOLERANCE = 0.1;
+
+// Rough estimate: about four ASCII characters per token, but roughly one token per CJK character
+export const estimateTokens = (text: string): number => {
+  const wide = text.replace(/[\x00-\x7F]/g, '').length;
+  return Math.ceil((text.length - wide) / 4) + wide;
+};
+
+export interface DaySummary {
+  date: string;
+  logged: boolean;
+  intake: number;
+  burned: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  goal: number;
+  proteinGoal: number;
+}
+
+type ContextState = Pick<AppState, 'logs' | 'dailyGoal' | 'macronutrientGoals' | 'weekdayTargets' | 'dateTargets'>;
+
+/** Totals for each day of the window ending at `endDate`, oldest first */
+export const summarizeDays = (state: ContextState, endDate: string, days: number): DaySummary[] => {
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDaysToKey(endDate, index - days + 1);
+    const log = state.logs[date];
+    const target = resolveTargets(state, date);
+    const sum = (key: 'calories' | 'protein' | 'carbs' | 'fat') => log ? log.food.reduce((total, entry) => total + entry[key], 0) : 0;
+    return {
+      date,
+      logged: !!log && log.food.length > 0,
+      intake: sum('calories'),
+      burned: log ? log.exercise.reduce((total, entry) => total + entry.calories, 0) : 0,
+      protein: Math.round(sum('protein')),
+      carbs: Math.round(sum('carbs')),
+      fat: Math.round(sum('fat')),
+      goal: target.dailyGoal,
+      proteinGoal: target.macronutrientGoals.protein,
+    };
+  });
+};
+
+const average = (values: number[]): number => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+/**
+ * Describes the last `days` days for the assistant: averages and goal adherence first,
+ * then one line per day, newest first, dropping the oldest days to stay within the budget
+ */
+export const buildHistoryContext = (
+  state: ContextState,
+  endDate: string,
+  days: number,
+  language: SupportedLanguage,
+  budget = CONTEXT_TOKEN_BUDGET
+): string => {
+  const summaries = summarizeDays(state, endDate, days);
+  const logged = summaries.filter(day => day.logged);
+  const zh = language === 'zh-TW';
+
+  const header = zh
+    ? `過去 ${days} 天的記錄（${summaries[0].date} 至 ${endDate}）：`
+    : `History for the last ${days} days (${summaries[0].date} to ${endDate}):`;
+  if (logged.length === 0) {
+    return `${header}\n${zh ? '- 此期間沒有食物記錄' : '- No food logged in this period'}`;
+  }
+
+  const onTarget = logged.filter(day => Math.abs(day.intake - day.goal) <= day.goal * ADHERENCE_TOLERANCE).length;
+  const proteinMet = logged.filter(day => day.protein >= day.proteinGoal).length;
+  const overview = zh
+    ? [
+        `- 有記錄的天數: ${logged.length}/${days}`,
+        `- 平均每日攝取: ${average(logged.map(d => d.intake))} 大卡（平均目標 ${average(logged.map(d => d.goal))} 大卡）`,
+        `- 平均每日巨量營養素: 蛋白質 ${average(logged.map(d => d.protein))}g、碳水 ${average(logged.map(d => d.carbs))}g、脂肪 ${average(logged.map(d => d.fat))}g`,
+        `- 平均每日運動消耗: ${average(logged.map(d => d.burned))} 大卡`,
+        `- 熱量在目標 ±${ADHERENCE_TOLERANCE * 100}% 內的天數: ${onTarget}/${logged.length}`,
+        `- 達到蛋白質目標的天數: ${proteinMet}/${logged.length}`,
+      ]
+    : [
+        `- Days logged: ${logged.length}/${days}`,
+        `- Average daily intake: ${average(logged.map(d => d.intake))} kcal (average goal ${average(logged.map(d => d.goal))} kcal)`,
+        `- Average daily macros: protein ${average(logged.map(d => d.protein))}g, carbs ${average(logged.map(d => d.carbs))}g, fat ${average(logged.map(d => d.fat))}g`,
+        `- Average daily exercise burn: ${average(logged.map(d => d.burned))} kcal`,
+        `- Days with calories within ±${ADHERENCE_TOLERANCE * 100}% of goal: ${onTarget}/${logged.length}`,
+        `- Days meeting the protein goal: ${proteinMet}/${logged.length}`,
+      ];
+
+  const dayLines = [...summaries].reverse().map(day => {
+    if (!day.logged) return `  - ${day.date}: ${zh ? '未記錄' : 'not logged'}`;
+    return zh
+      ? `  - ${day.date}: ${day.intake}/${day.goal} 大卡，燃燒 ${day.burned}，蛋白質 ${day.protein}/${day.proteinGoal}g，碳水 ${day.carbs}g，脂肪 ${day.fat}g`
+      : `  - ${day.date}: ${day.intake}/${day.goal} kcal, burned ${day.burned}, protein ${day.protein}/${day.proteinGoal}g, carbs ${day.carbs}g, fat ${day.fat}g`;
+  });
+
+  const omittedNote = (count: number) => zh ? `  - （為符合長度限制，省略較早的 ${count} 天）` : `  - (${count} older days omitted to fit the context budget)`;
+  const lines = [header, ...overview, zh ? '- 每日明細（由新到舊）:' : '- Daily breakdown (newest first):'];
+  // Leave room for the note about omitted days
+  let used = estimateTokens(lines.join('\n')) + estimateTokens(`\n${omittedNote(days)}`);
+  let included = 0;
+  for (const line of dayLines) {
+    const cost = estimateTokens(`\n${line}`);
+    if (used + cost > budget) break;
+    lines.push(line);
+    used += cost;
+    included++;
+  }
+  const omitted = dayLines.length - included;
+  if (omitted > 0) {
+    lines.push(omittedNote(omitted));
+  }
+  return lines.join('\n');
+};
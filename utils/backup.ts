@@ -0,0 +1,307 @@
+import { AppState, CustomFood, DailyLog } from '../types';
+
+export const BACKUP_FORMAT = 'calorie-tracker-backup';
+export const BACKUP_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  includesApiKey: boolean;
+  state: Partial<AppState>;
+}
+
+export class BackupError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+    this.errors = errors;
+  }
+}
+
+// --- Runtime validation ---
+
+type Validator = (value: unknown, path: string, errors: string[]) => void;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const number: Validator = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}: expected a number`);
+};
+
+const string: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path}: expected a string`);
+};
+
+const oneOf = (...options: string[]): Validator => (value, path, errors) => {
+  if (typeof value !== 'string' || !options.includes(value)) errors.push(`${path}: expected one of ${options.join(', ')}`);
+};
+
+const optional = (validator: Validator): Validator => (value, path, errors) => {
+  if (value !== undefined) validator(value, path, errors);
+};
+
+const nullable = (validator: Validator): Validator => (value, path, errors) => {
+  if (value !== null) validator(value, path, errors);
+};
+
+const object = (shape: Record<string, Validator>): Validator => (value, path, errors) => {
+  if (!isPlainObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  Object.entries(shape).forEach(([key, validator]) => validator(value[key], `${path}.${key}`, errors));
+};
+
+const array = (item: Validator): Validator => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array`);
+    return;
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, errors));
+};
+
+const record = (item: Validator, keyPattern?: RegExp): Validator => (value, path, errors) => {
+  if (!isPlainObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  Object.entries(value).forEach(([key, entry]) => {
+    if (keyPattern && !keyPattern.test(key)) errors.push(`${path}: invalid key "${key}"`);
+    item(entry, `${path}.${key}`, errors);
+  });
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_KEY = /^[0-6]$/;
+const NUTRIENT_KEY = /^(fiber|sugar|saturatedFat|sodium|cholesterol|potassium|calcium|iron|vitaminC|vitaminD)$/;
+
+const macros = { protein: number, carbs: number, fat: number };
+const nutrition = object({ calories: number, ...macros });
+const portion = object({ quantity: number, unit: oneOf('g', 'ml', 'piece', 'cup', 'serving'), gramsPerUnit: number });
+
+const micronutrients = object({
+  fiber: optional(number), sugar: optional(number), saturatedFat: optional(number), sodium: optional(number),
+  cholesterol: optional(number), potassium: optional(number), calcium: optional(number), iron: optional(number),
+  vitaminC: optional(number), vitaminD: optional(number),
+});
+const nutrientGoal = object({ amount: number, kind: oneOf('limit', 'target') });
+const foodFields = {
+  name: string, calories: number, ...macros,
+  meal: oneOf('breakfast', 'lunch', 'dinner', 'snack'), time: optional(string),
+  portion: optional(portion), per100g: optional(nutrition), micronutrients: optional(micronutrients),
+};
+const exerciseFields = { name: string, duration: number, calories: number, met: optional(number), time: optional(string) };
+const foodEntry = object({ id: string, ...foodFields });
+const exerciseEntry = object({ id: string, ...exerciseFields });
+const waterEntry = object({ id: string, amount: number, time: optional(string) });
+const dailyLog = object({ food: array(foodEntry), exercise: array(exerciseEntry), water: optional(array(waterEntry)) });
+// Custom foods saved before they had ids are given one on import
+const customFood = object({
+  id: optional(string), name: string, calories: number, ...macros,
+  portion: optional(portion), per100g: optional(nutrition), micronutrients: optional(micronutrients),
+});
+const recipeIngredient = object({
+  id: string, name: string, portion, per100g: nutrition,
+  micronutrients: optional(micronutrients), customFoodId: optional(string),
+});
+const recipe = object({ id: string, name: string, servings: number, ingredients: array(recipeIngredient) });
+const barcodeProduct = object({ code: string, name: string, calories: number, ...macros, portion, per100g: optional(nutrition) });
+const bodyMeasurement = object({ weight: optional(number), waist: optional(number), hip: optional(number), bodyFat: optional(number) });
+const dayTarget = object({ dailyGoal: number, macronutrientGoals: object(macros) });
+const goalPlan = object({
+  phase: oneOf('cut', 'maintain', 'bulk'), startDate: string, startWeight: number, targetWeight: number,
+  weeklyRate: optional(number), targetDate: optional(string),
+});
+const fastRecord = object({ id: string, start: number, end: number, targetHours: number });
+const fasting = object({ protocol: oneOf('14:10', '16:8', '18:6', '20:4'), activeStart: nullable(number), history: array(fastRecord) });
+const userProfile = object({
+  age: nullable(number), sex: nullable(oneOf('male', 'female')), weight: nullable(number), height: nullable(number),
+  activityLevel: oneOf('sedentary', 'light', 'moderate', 'active', 'very_active'),
+});
+const aiAction = object({
+  id: string, kind: oneOf('add_food', 'add_exercise', 'remove_food', 'log_weight'), status: oneOf('pending', 'accepted', 'dismissed', 'failed'),
+  date: optional(string), food: optional(object(foodFields)), exercise: optional(object(exerciseFields)), foodId: optional(string), weight: optional(number),
+});
+const chatMessage = object({ role: oneOf('user', 'model'), text: string, actions: optional(array(aiAction)) });
+
+const appStateSchema = object({
+  schemaVersion: optional(number),
+  dailyGoal: number,
+  macronutrientGoals: object(macros),
+  logs: record(dailyLog, DATE_KEY),
+  customFoods: optional(array(customFood)),
+  recipes: optional(array(recipe)),
+  products: optional(record(barcodeProduct)),
+  measurements: optional(record(bodyMeasurement, DATE_KEY)),
+  plan: optional(nullable(goalPlan)),
+  weekdayTargets: optional(record(dayTarget, WEEKDAY_KEY)),
+  dateTargets: optional(record(dayTarget, DATE_KEY)),
+  fasting: optional(fasting),
+  waterContainers: optional(array(number)),
+  nutrientGoals: optional(record(nutrientGoal, NUTRIENT_KEY)),
+  aiProvider: optional(oneOf('gemini', 'gemini-proxy', 'openai')),
+  aiBaseUrl: optional(string),
+  apiKey: optional(nullable(string)),
+  aiModel: optional(string),
+  language: optional(oneOf('en', 'zh-TW')),
+  dayStartHour: optional(number),
+  aiContextDays: optional(number),
+  userProfile: optional(userProfile),
+  chatHistory: optional(array(chatMessage)),
+});
+
+// backupMigrations[n] upgrades a backup from version n to n + 1
+const backupMigrations: Record<number, (backup: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0 was the raw AppState written by the old export
+  0: (raw) => ({ format: BACKUP_FORMAT, version: 1, exportedAt: '', includesApiKey: 'apiKey' in raw, state: raw }),
+};
+
+/**
+ * Wraps the state in a versioned backup, leaving the API key out unless asked for
+ */
+export const createBackup = (state: AppState, includeApiKey: boolean): Backup => {
+  const { apiKey, ...rest } = state;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    includesApiKey: includeApiKey,
+    state: includeApiKey ? { ...rest, apiKey } : rest,
+  };
+};
+
+/**
+ * Upgrades and validates parsed backup JSON. Old exports of the raw state are accepted too.
+ * Throws a BackupError listing every invalid field.
+ */
+export const parseBackup = (raw: unknown): Backup => {
+  if (!isPlainObject(raw)) throw new BackupError('Backup is not a JSON object');
+
+  let backup = raw.format === BACKUP_FORMAT ? raw : backupMigrations[0](raw);
+  if (typeof backup.version !== 'number') throw new BackupError('Backup has no version');
+  if (backup.version > BACKUP_VERSION) throw new BackupError(`Backup version ${backup.version} is newer than this app supports`);
+  while ((backup.version as number) < BACKUP_VERSION) {
+    backup = backupMigrations[backup.version as number](backup);
+  }
+
+  const errors: string[] = [];
+  appStateSchema(backup.state, 'state', errors);
+  if (errors.length > 0) throw new BackupError('Backup failed validation', errors);
+  return backup as unknown as Backup;
+};
+
+// --- Merging ---
+
+// Entries with the same id appear once, with the imported version winning
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingIds = new Set(incoming.map(entry => entry.id));
+  return [...current.filter(entry => !incomingIds.has(entry.id)), ...incoming];
+};
+
+const mergeLogs = (current: Record<string, DailyLog>, incoming: Record<string, DailyLog>): Record<string, DailyLog> => {
+  const logs = { ...current };
+  Object.entries(incoming).forEach(([date, log]) => {
+    const existing = logs[date];
+    logs[date] = existing
+      ? {
+        food: mergeById(existing.food, log.food),
+        exercise: mergeById(existing.exercise, log.exercise),
+        water: mergeById(existing.water || [], log.water || []),
+      }
+      : log;
+  });
+  return logs;
+};
+
+/**
+ * Combines imported data with the current state: days, entries, saved foods,
+ * recipes, products, measurements, targets and past fasts are merged, while settings,
+ * goals, the running fast and chat history stay as they are
+ */
+export const mergeStates = (current: AppState, incoming: Partial<AppState>): AppState => ({
+  ...current,
+  logs: mergeLogs(current.logs, incoming.logs || {}),
+  customFoods: mergeById(current.customFoods, (incoming.customFoods || []) as CustomFood[]),
+  recipes: mergeById(current.recipes, incoming.recipes || []),
+  products: { ...current.products, ...incoming.products },
+  measurements: { ...current.measurements, ...incoming.measurements },
+  weekdayTargets: { ...current.weekdayTargets, ...incoming.weekdayTargets },
+  dateTargets: { ...current.dateTargets, ...incoming.dateTargets },
+  fasting: { ...current.fasting, history: mergeById(current.fasting.history, incoming.fasting?.history || []) },
+});
+
+// --- Preview ---
+
+export interface ImportPreview {
+  daysAdded: number;
+  daysChanged: number;
+  daysRemoved: number;
+  entriesAdded: number;
+  entriesUpdated: number;
+  entriesRemoved: number;
+  customFoodsAdded: number;
+  measurementsAdded: number;
+  settingsReplaced: boolean;
+}
+
+const countEntries = (log?: DailyLog): number => log ? log.food.length + log.exercise.length + (log.water?.length || 0) : 0;
+
+const entryIds = (log?: DailyLog): Map<string, unknown> => {
+  const ids = new Map<string, unknown>();
+  log?.food.forEach(entry => ids.set(`food-${entry.id}`, entry));
+  log?.exercise.forEach(entry => ids.set(`exercise-${entry.id}`, entry));
+  log?.water?.forEach(entry => ids.set(`water-${entry.id}`, entry));
+  return ids;
+};
+
+/**
+ * Summarizes what an import would change, by comparing the state before and after it
+ */
+export const previewImport = (current: AppState, result: AppState, mode: ImportMode): ImportPreview => {
+  const preview: ImportPreview = {
+    daysAdded: 0, daysChanged: 0, daysRemoved: 0,
+    entriesAdded: 0, entriesUpdated: 0, entriesRemoved: 0,
+    customFoodsAdded: 0, measurementsAdded: 0,
+    settingsReplaced: mode === 'replace',
+  };
+
+  const dates = new Set([...Object.keys(current.logs), ...Object.keys(result.logs)]);
+  dates.forEach(date => {
+    const before = current.logs[date];
+    const after = result.logs[date];
+    if (!before && countEntries(after) > 0) preview.daysAdded++;
+    else if (countEntries(before) > 0 && !after) preview.daysRemoved++;
+
+    const beforeIds = entryIds(before);
+    const afterIds = entryIds(after);
+    let changed = false;
+    afterIds.forEach((entry, id) => {
+      if (!beforeIds.has(id)) {
+        preview.entriesAdded++;
+        changed = true;
+      } else if (JSON.stringify(beforeIds.get(id)) !== JSON.stringify(entry)) {
+        preview.entriesUpdated++;
+        changed = true;
+      }
+    });
+    beforeIds.forEach((_, id) => {
+      if (!afterIds.has(id)) {
+        preview.entriesRemoved++;
+        changed = true;
+      }
+    });
+    if (before && after && changed) preview.daysChanged++;
+  });
+
+  const currentFoodIds = new Set(current.customFoods.map(food => food.id));
+  preview.customFoodsAdded = result.customFoods.filter(food => !currentFoodIds.has(food.id)).length;
+  preview.measurementsAdded = Object.keys(result.measurements).filter(date => !(date in current.measurements)).length;
+  return preview;
+};
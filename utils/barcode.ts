@@ -0,0 +1,159 @@
+// Client-side EAN-13 / UPC-A decoder working on canvas ImageData scanlines
+
+// Module widths of each digit, read from the start of the digit outwards (space first on the left half)
+const L_PATTERNS = ['3211', '2221', '2122', '1411', '1132', '1231', '1114', '1312', '1213', '3112'];
+const G_PATTERNS = L_PATTERNS.map(p => p.split('').reverse().join(''));
+// Parity of the six left-hand digits (L or G) encodes the implicit first digit
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const RUNS_PER_CODE = 59; // 3 + 6 × 4 + 5 + 6 × 4 + 3
+const MODULES_PER_CODE = 95;
+const MAX_DIGIT_ERROR = 1.5;
+const SCANLINES = 24;
+
+/**
+ * Validates the trailing check digit of an EAN-13 code
+ */
+export const isValidEan13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const sum = digits.slice(0, 12).reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+/**
+ * Normalizes a UPC-A (12 digits) or EAN-13 code to 13 digits, or returns null if invalid
+ */
+export const normalizeBarcode = (input: string): string | null => {
+  const code = input.replace(/\D/g, '');
+  const ean = code.length === 12 ? `0${code}` : code;
+  return isValidEan13(ean) ? ean : null;
+};
+
+const matchDigit = (runs: number[], patterns: string[]): { digit: number; error: number } => {
+  const total = runs.reduce((a, b) => a + b, 0);
+  const normalized = runs.map(r => (r * 7) / total);
+  let best = { digit: -1, error: Infinity };
+  patterns.forEach((pattern, digit) => {
+    const error = pattern.split('').reduce((acc, w, i) => acc + Math.abs(Number(w) - normalized[i]), 0);
+    if (error < best.error) best = { digit, error };
+  });
+  return best;
+};
+
+const isGuard = (runs: number[], moduleWidth: number): boolean => {
+  return runs.every(r => r > moduleWidth * 0.4 && r < moduleWidth * 1.8);
+};
+
+// Tries to decode a code whose start guard begins at runs[start], which must be a bar
+const decodeRuns = (runs: number[], start: number): string | null => {
+  const slice = runs.slice(start, start + RUNS_PER_CODE);
+  if (slice.length < RUNS_PER_CODE) return null;
+  const moduleWidth = slice.reduce((a, b) => a + b, 0) / MODULES_PER_CODE;
+
+  if (!isGuard(slice.slice(0, 3), moduleWidth) || !isGuard(slice.slice(27, 32), moduleWidth) || !isGuard(slice.slice(56, 59), moduleWidth)) {
+    return null;
+  }
+
+  let parity = '';
+  let digits = '';
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = slice.slice(3 + i * 4, 7 + i * 4);
+    const l = matchDigit(digitRuns, L_PATTERNS);
+    const g = matchDigit(digitRuns, G_PATTERNS);
+    const best = l.error <= g.error ? l : g;
+    if (best.error > MAX_DIGIT_ERROR) return null;
+    parity += l.error <= g.error ? 'L' : 'G';
+    digits += best.digit;
+  }
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = slice.slice(32 + i * 4, 36 + i * 4);
+    const r = matchDigit(digitRuns, L_PATTERNS);
+    if (r.error > MAX_DIGIT_ERROR) return null;
+    digits += r.digit;
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (firstDigit === -1) return null;
+  const code = `${firstDigit}${digits}`;
+  return isValidEan13(code) ? code : null;
+};
+
+// Converts a row of luminance values into alternating run lengths, starting with the first dark run
+const toRuns = (row: number[]): number[] => {
+  let min = 255;
+  let max = 0;
+  row.forEach(v => {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  });
+  if (max - min < 40) return [];
+  const threshold = (min + max) / 2;
+
+  const runs: number[] = [];
+  let current = row[0] < threshold;
+  let length = 0;
+  row.forEach(v => {
+    const dark = v < threshold;
+    if (dark === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = dark;
+      length = 1;
+    }
+  });
+  runs.push(length);
+  // Drop the leading quiet zone so runs[0] is dark
+  if (row[0] >= threshold) runs.shift();
+  return runs;
+};
+
+const decodeRow = (row: number[]): string | null => {
+  for (const values of [row, [...row].reverse()]) {
+    const runs = toRuns(values);
+    // runs[0] is always dark, so bars sit at even indices
+    for (let start = 0; start + RUNS_PER_CODE <= runs.length; start += 2) {
+      const code = decodeRuns(runs, start);
+      if (code) return code;
+    }
+  }
+  return null;
+};
+
+/**
+ * Scans horizontal lines across the image and returns the first valid EAN-13 code found
+ */
+export const decodeBarcode = (image: ImageData): string | null => {
+  const { data, width, height } = image;
+  for (let i = 0; i < SCANLINES; i++) {
+    // Start from the middle and alternate outwards, where a framed barcode is most likely
+    const offset = Math.ceil(i / 2) * (i % 2 === 0 ? 1 : -1);
+    const y = Math.floor(height / 2 + (offset * height) / (SCANLINES + 2));
+    if (y < 0 || y >= height) continue;
+
+    const row: number[] = new Array(width);
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      row[x] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+    }
+    const code = decodeRow(row);
+    if (code) return code;
+  }
+  return null;
+};
+
+/**
+ * Draws an image source onto a canvas (scaled down for speed) and decodes it
+ */
+export const decodeBarcodeFromSource = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): string | null => {
+  if (!sourceWidth || !sourceHeight) return null;
+  const scale = Math.min(1, 1280 / sourceWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeBarcode(context.getImageData(0, 0, canvas.width, canvas.height));
+};
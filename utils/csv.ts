@@ -0,0 +1,303 @@
+import { BodyMeasurement, DailyLog, ExerciseEntry, FoodEntry } from '../types';
+import { isValidDateKey } from './date';
+
+export type CsvImportKind = 'food' | 'exercise' | 'weight';
+// Order of day and month in slashed dates; ISO dates are always recognized
+export type CsvDateFormat = 'mdy' | 'dmy';
+export type CsvField = 'date' | 'time' | 'name' | 'meal' | 'calories' | 'protein' | 'carbs' | 'fat' | 'duration' | 'weight';
+// Column index for each field, -1 when the field isn't in the file
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+export const CSV_FIELDS: Record<CsvImportKind, { field: CsvField; required: boolean }[]> = {
+  food: [
+    { field: 'date', required: true },
+    { field: 'time', required: false },
+    { field: 'name', required: false },
+    { field: 'meal', required: false },
+    { field: 'calories', required: true },
+    { field: 'protein', required: false },
+    { field: 'carbs', required: false },
+    { field: 'fat', required: false },
+  ],
+  exercise: [
+    { field: 'date', required: true },
+    { field: 'time', required: false },
+    { field: 'name', required: true },
+    { field: 'duration', required: false },
+    { field: 'calories', required: true },
+  ],
+  weight: [
+    { field: 'date', required: true },
+    { field: 'weight', required: true },
+  ],
+};
+
+// Lower-case header names used by this app, MyFitnessPal and Cronometer exports
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  date: ['date', 'day'],
+  time: ['time', 'time of day'],
+  name: ['name', 'food name', 'food', 'exercise', 'exercise name', 'description'],
+  meal: ['meal', 'group', 'category'],
+  calories: ['calories', 'kcal', 'energy (kcal)', 'calories burned', 'exercise calories'],
+  protein: ['protein', 'protein (g)', 'protein_g'],
+  carbs: ['carbs', 'carbohydrates (g)', 'carbs (g)', 'net carbs (g)', 'carbs_g'],
+  fat: ['fat', 'fat (g)', 'fat_g'],
+  duration: ['duration', 'duration_min', 'minutes', 'exercise minutes', 'duration (min)'],
+  weight: ['weight', 'weight_kg', 'weight (kg)', 'body weight', 'body weight (kg)'],
+};
+
+type Cell = string | number | undefined | null;
+
+const escapeCell = (value: Cell): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to RFC 4180 CSV
+ */
+export const toCsv = (rows: Cell[][]): string => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * Parses CSV text into rows of cells, handling quoted fields, CRLF line endings
+ * and a UTF-8 BOM. Semicolon- and tab-separated files are detected from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// --- Export ---
+
+const inRange = (date: string, from?: string, to?: string): boolean => (!from || date >= from) && (!to || date <= to);
+
+const sortedDates = (record: Record<string, unknown>, from?: string, to?: string): string[] => {
+  return Object.keys(record).filter(date => inRange(date, from, to)).sort();
+};
+
+/**
+ * One row per food entry, optionally limited to an inclusive date range
+ */
+export const exportFoodCsv = (logs: Record<string, DailyLog>, from?: string, to?: string): string => {
+  const rows: Cell[][] = [['date', 'time', 'meal', 'name', 'calories', 'protein_g', 'carbs_g', 'fat_g', 'quantity', 'unit']];
+  sortedDates(logs, from, to).forEach(date => {
+    logs[date].food.forEach((entry: FoodEntry) => {
+      rows.push([date, entry.time, entry.meal, entry.name, entry.calories, entry.protein, entry.carbs, entry.fat, entry.portion?.quantity, entry.portion?.unit]);
+    });
+  });
+  return toCsv(rows);
+};
+
+/**
+ * One row per exercise entry, optionally limited to an inclusive date range
+ */
+export const exportExerciseCsv = (logs: Record<string, DailyLog>, from?: string, to?: string): string => {
+  const rows: Cell[][] = [['date', 'time', 'name', 'duration_min', 'calories']];
+  sortedDates(logs, from, to).forEach(date => {
+    logs[date].exercise.forEach((entry: ExerciseEntry) => {
+      rows.push([date, entry.time, entry.name, entry.duration, entry.calories]);
+    });
+  });
+  return toCsv(rows);
+};
+
+/**
+ * One row per day with body measurements, optionally limited to an inclusive date range
+ */
+export const exportMeasurementsCsv = (measurements: Record<string, BodyMeasurement>, from?: string, to?: string): string => {
+  const rows: Cell[][] = [['date', 'weight_kg', 'waist_cm', 'hip_cm', 'body_fat_pct']];
+  sortedDates(measurements, from, to).forEach(date => {
+    const m = measurements[date];
+    rows.push([date, m.weight, m.waist, m.hip, m.bodyFat]);
+  });
+  return toCsv(rows);
+};
+
+// --- Import ---
+
+/**
+ * Maps each field to the first header that matches one of its known names
+ */
+export const guessColumnMapping = (header: string[], kind: CsvImportKind): CsvColumnMapping => {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const mapping: CsvColumnMapping = {};
+  CSV_FIELDS[kind].forEach(({ field }) => {
+    mapping[field] = normalized.findIndex(h => FIELD_ALIASES[field].includes(h));
+  });
+  return mapping;
+};
+
+/**
+ * Parses a date cell to YYYY-MM-DD, or null if it can't be read.
+ * ISO dates are always accepted; the format only disambiguates day and month in slashed dates.
+ */
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  let parts: [number, number, number] | null = iso ? [Number(iso[1]), Number(iso[2]), Number(iso[3])] : null;
+
+  if (!parts) {
+    const slashed = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+    if (!slashed) return null;
+    const year = Number(slashed[3]) < 100 ? 2000 + Number(slashed[3]) : Number(slashed[3]);
+    const [first, second] = [Number(slashed[1]), Number(slashed[2])];
+    parts = format === 'dmy' ? [year, second, first] : [year, first, second];
+  }
+
+  const [year, month, day] = parts;
+  const key = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+  return isValidDateKey(key) ? key : null;
+};
+
+/**
+ * Reads a 24-hour or am/pm time cell as HH:MM, or undefined if it can't be read
+ */
+export const parseCsvTime = (value: string | undefined): string | undefined => {
+  const match = (value || '').trim().toLowerCase().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/);
+  if (!match) return undefined;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return undefined;
+  return `${hours.toString().padStart(2, '0')}:${match[2]}`;
+};
+
+const parseNumber = (value: string | undefined): number => {
+  if (!value) return 0;
+  const parsed = parseFloat(value.replace(/,/g, '').trim());
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const parseMeal = (value: string | undefined): FoodEntry['meal'] => {
+  const text = (value || '').toLowerCase();
+  if (text.includes('breakfast') || text.includes('早餐')) return 'breakfast';
+  if (text.includes('lunch') || text.includes('午餐')) return 'lunch';
+  if (text.includes('dinner') || text.includes('supper') || text.includes('晚餐')) return 'dinner';
+  return 'snack';
+};
+
+// Short, stable hash of a string (FNV-1a), so the same row maps to the same id on every import
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export interface CsvImportResult {
+  logs: Record<string, DailyLog>;
+  measurements: Record<string, BodyMeasurement>;
+  imported: number;
+  skipped: number;
+}
+
+/**
+ * Turns data rows (without the header) into daily logs, or weigh-ins for the weight kind, using the column mapping.
+ * Rows without a readable date or calorie value (or exercise name, or weight) are skipped. A food row without a
+ * name falls back to its meal, which is how MyFitnessPal's meal-level export looks.
+ * Entry ids are derived from the row's date, time, name and calories, so importing the same rows again
+ * replaces them instead of adding duplicates.
+ */
+export const mapCsvRows = (rows: string[][], kind: CsvImportKind, mapping: CsvColumnMapping, dateFormat: CsvDateFormat): CsvImportResult => {
+  const cell = (row: string[], field: CsvField): string | undefined => {
+    const index = mapping[field];
+    return index !== undefined && index >= 0 ? row[index] : undefined;
+  };
+
+  const logs: Record<string, DailyLog> = {};
+  const measurements: Record<string, BodyMeasurement> = {};
+  // Identical rows within one file are separate entries (two eggs at breakfast), so count them
+  const occurrences = new Map<string, number>();
+  let imported = 0;
+  let skipped = 0;
+
+  rows.forEach(row => {
+    const date = parseCsvDate(cell(row, 'date') || '', dateFormat);
+    if (kind === 'weight') {
+      const weight = parseNumber(cell(row, 'weight'));
+      if (!date || weight <= 0) {
+        skipped++;
+        return;
+      }
+      measurements[date] = { weight: Math.round(weight * 10) / 10 };
+      imported++;
+      return;
+    }
+
+    const caloriesCell = cell(row, 'calories')?.trim();
+    const name = cell(row, 'name')?.trim();
+    if (!date || !caloriesCell || (kind === 'exercise' && !name)) {
+      skipped++;
+      return;
+    }
+    const time = parseCsvTime(cell(row, 'time'));
+    const calories = Math.round(parseNumber(caloriesCell));
+    const key = [kind, date, time || '', (name || cell(row, 'meal') || '').toLowerCase(), calories].join('|');
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+    const id = `csv-${hashString(key)}-${occurrence}`;
+
+    const log = logs[date] || (logs[date] = { food: [], exercise: [] });
+    if (kind === 'food') {
+      const meal = parseMeal(cell(row, 'meal'));
+      log.food.push({
+        id,
+        name: name || cell(row, 'meal')?.trim() || meal,
+        calories,
+        protein: Math.round(parseNumber(cell(row, 'protein'))),
+        carbs: Math.round(parseNumber(cell(row, 'carbs'))),
+        fat: Math.round(parseNumber(cell(row, 'fat'))),
+        meal,
+        time,
+      });
+    } else {
+      log.exercise.push({ id, name: name as string, duration: Math.round(parseNumber(cell(row, 'duration'))), calories, time });
+    }
+    imported++;
+  });
+
+  return { logs, measurements, imported, skipped };
+};
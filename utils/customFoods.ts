@@ -0,0 +1,49 @@
+import { CustomFood } from '../types';
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Returns the custom food whose name matches exactly (case-insensitive), if any
+ */
+export const findCustomFoodByName = (foods: CustomFood[], name: string): CustomFood | undefined => {
+  const query = normalize(name);
+  if (!query) return undefined;
+  return foods.find(food => normalize(food.name) === query);
+};
+
+/**
+ * Searches the custom food library, ranking names that start with the query
+ * before names that only contain it
+ */
+export const searchCustomFoods = (foods: CustomFood[], query: string, limit = 5): CustomFood[] => {
+  const q = normalize(query);
+  if (!q) return [];
+
+  const prefixMatches: CustomFood[] = [];
+  const otherMatches: CustomFood[] = [];
+  foods.forEach(food => {
+    const name = normalize(food.name);
+    if (name.startsWith(q)) {
+      prefixMatches.push(food);
+    } else if (name.includes(q)) {
+      otherMatches.push(food);
+    }
+  });
+
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+};
+
+/**
+ * Gives legacy custom foods (stored before they had ids) a stable id
+ */
+export const ensureCustomFoodIds = (foods: Partial<CustomFood>[]): CustomFood[] => {
+  return foods.map((food, index) => ({
+    ...food,
+    id: food.id || `${Date.now()}-${index}`,
+    name: food.name || '',
+    calories: food.calories || 0,
+    protein: food.protein || 0,
+    carbs: food.carbs || 0,
+    fat: food.fat || 0,
+  }));
+};
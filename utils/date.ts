@@ -0,0 +1,87 @@
+// Date keys are YYYY-MM-DD strings naming a local calendar day. All log, measurement
+// and target records are keyed this way, so keep conversions in this module.
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const fromParts = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * The local calendar day a moment belongs to. With a day start hour, moments
+ * before that hour still count towards the previous day (e.g. 02:00 with a
+ * 4 o'clock start is filed under yesterday).
+ */
+export const toDateKey = (date: Date, dayStartHour = 0): string => {
+  const shifted = new Date(date);
+  shifted.setHours(shifted.getHours() - dayStartHour);
+  return fromParts(shifted.getFullYear(), shifted.getMonth() + 1, shifted.getDate());
+};
+
+/**
+ * Local midnight at the start of the calendar day named by a key
+ */
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isValidDateKey = (key: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(key)) return false;
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Calendar arithmetic runs in UTC so daylight saving changes can't shift a day
+const toUtcDay = (key: string): number => {
+  const [year, month, day] = key.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86400000;
+};
+
+export const addDaysToKey = (key: string, days: number): string => {
+  const date = new Date((toUtcDay(key) + days) * 86400000);
+  return fromParts(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+export const daysBetweenKeys = (from: string, to: string): number => toUtcDay(to) - toUtcDay(from);
+
+/**
+ * Day of week of a key, 0 = Sunday
+ */
+export const getWeekdayOfKey = (key: string): number => new Date(toUtcDay(key) * 86400000).getUTCDay();
+
+/**
+ * Formats a key for display in the given locale without any time zone shift
+ */
+export const formatDateKey = (key: string, locale: string, options: Intl.DateTimeFormatOptions): string => {
+  return parseDateKey(key).toLocaleDateString(locale, options);
+};
+
+// Times of day are HH:MM strings in local time, read against the day they are logged under
+
+export const toTimeOfDay = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Minutes from the start of the log day to a time, so times after midnight
+ * sort after the evening when the day starts later than midnight
+ */
+export const minutesSinceDayStart = (time: string, dayStartHour = 0): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours * 60 + minutes - dayStartHour * 60 + 1440) % 1440;
+};
+
+export const formatTimeOfDay = (time: string, locale: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * The moment a time logged under a day refers to. With a day start hour,
+ * times before that hour fall on the next calendar day.
+ */
+export const toMoment = (key: string, time: string, dayStartHour = 0): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = parseDateKey(key);
+  if (hours < dayStartHour) date.setDate(date.getDate() + 1);
+  date.setHours(hours, minutes);
+  return date;
+};
@@ -0,0 +1,79 @@
+import { DailyLog, FastingProtocol, FastRecord } from '../types';
+import { addDaysToKey, daysBetweenKeys, toDateKey, toMoment } from './date';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Fasts stopped sooner than this after starting were started by mistake and aren't recorded
+export const MIN_FAST_MS = 60 * 1000;
+
+// Fasting hours of each protocol; the rest of the day is the eating window
+export const FASTING_PROTOCOLS: Record<FastingProtocol, number> = {
+  '14:10': 14,
+  '16:8': 16,
+  '18:6': 18,
+  '20:4': 20,
+};
+
+export interface FastingStats {
+  count: number;
+  averageHours: number | null;
+  longestHours: number | null;
+  completionRate: number | null; // share of fasts that reached their target
+  currentStreak: number; // consecutive days, up to today or yesterday, with a completed fast
+  bestStreak: number;
+}
+
+export const getFastHours = (fast: Pick<FastRecord, 'start' | 'end'>): number => (fast.end - fast.start) / HOUR_MS;
+
+export const isFastCompleted = (fast: FastRecord): boolean => getFastHours(fast) >= fast.targetHours;
+
+/**
+ * The moment of the latest timed food entry at or before now, or null if none of
+ * the recent days have one
+ */
+export const getLastMealTime = (logs: Record<string, DailyLog>, dayStartHour = 0, now: number = Date.now()): number | null => {
+  const today = toDateKey(new Date(now), dayStartHour);
+  // A fast longer than two days is out of scope, so only look at the last few logs
+  for (let offset = 0; offset <= 2; offset++) {
+    const date = addDaysToKey(today, -offset);
+    const moments = (logs[date]?.food || [])
+      .filter(entry => entry.time)
+      .map(entry => toMoment(date, entry.time as string, dayStartHour).getTime())
+      .filter(moment => moment <= now);
+    if (moments.length > 0) return Math.max(...moments);
+  }
+  return null;
+};
+
+/**
+ * Count, length and streaks over completed fasts. A fast counts towards the day it ended on.
+ */
+export const getFastingStats = (history: FastRecord[], dayStartHour = 0, now: number = Date.now()): FastingStats => {
+  if (history.length === 0) {
+    return { count: 0, averageHours: null, longestHours: null, completionRate: null, currentStreak: 0, bestStreak: 0 };
+  }
+
+  const hours = history.map(getFastHours);
+  const completedDays = Array.from(new Set(
+    history.filter(isFastCompleted).map(fast => toDateKey(new Date(fast.end), dayStartHour))
+  )).sort();
+
+  let bestStreak = 0;
+  let run = 0;
+  completedDays.forEach((date, index) => {
+    run = index > 0 && daysBetweenKeys(completedDays[index - 1], date) === 1 ? run + 1 : 1;
+    bestStreak = Math.max(bestStreak, run);
+  });
+  // The streak is still alive if today's fast just hasn't finished yet
+  const lastDay = completedDays[completedDays.length - 1];
+  const sinceLast = lastDay ? daysBetweenKeys(lastDay, toDateKey(new Date(now), dayStartHour)) : Infinity;
+
+  return {
+    count: history.length,
+    averageHours: hours.reduce((a, b) => a + b, 0) / hours.length,
+    longestHours: Math.max(...hours),
+    completionRate: history.filter(isFastCompleted).length / history.length,
+    currentStreak: sinceLast <= 1 ? run : 0,
+    bestStreak,
+  };
+};
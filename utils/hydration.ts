@@ -0,0 +1,31 @@
+import { DailyLog } from '../types';
+
+// Common guideline of about 35 ml per kg of body weight, plus roughly 600 ml per hour of exercise
+const ML_PER_KG = 35;
+const ML_PER_EXERCISE_MINUTE = 10;
+const DEFAULT_BASE_ML = 2000;
+
+export interface FluidIntake {
+  water: number;
+  drinks: number; // beverages logged as food, measured in ml
+  total: number;
+}
+
+/**
+ * Fluids for a day in ml. Water only lives in the hydration log, while drinks are
+ * logged as food (so their calories count) and add to hydration through their ml portion.
+ */
+export const getFluidIntake = (log: DailyLog): FluidIntake => {
+  const water = (log.water || []).reduce((sum, entry) => sum + entry.amount, 0);
+  const drinks = log.food.reduce((sum, entry) => sum + (entry.portion?.unit === 'ml' ? entry.portion.quantity : 0), 0);
+  return { water, drinks, total: water + drinks };
+};
+
+/**
+ * Daily fluid target in ml from body weight and the day's logged exercise minutes,
+ * rounded to 50 ml. Without a weight a flat base is used.
+ */
+export const getHydrationTarget = (weight: number | null, exerciseMinutes: number): number => {
+  const base = weight ? weight * ML_PER_KG : DEFAULT_BASE_ML;
+  return Math.round((base + exerciseMinutes * ML_PER_EXERCISE_MINUTE) / 50) * 50;
+};
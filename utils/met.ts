@@ -0,0 +1,78 @@
+// MET values from the Compendium of Physical Activities
+export type ExerciseIntensity = 'light' | 'moderate' | 'vigorous';
+
+export interface ActivityIntensity {
+  intensity: ExerciseIntensity;
+  met: number;
+}
+
+export interface Activity {
+  id: string;
+  nameKey: string;
+  intensities: ActivityIntensity[];
+}
+
+export const DEFAULT_WEIGHT_KG = 70;
+
+export const activityCatalogue: Activity[] = [
+  { id: 'walking', nameKey: 'log.activities.walking', intensities: [{ intensity: 'light', met: 2.8 }, { intensity: 'moderate', met: 3.5 }, { intensity: 'vigorous', met: 4.3 }] },
+  { id: 'running', nameKey: 'log.activities.running', intensities: [{ intensity: 'light', met: 8.3 }, { intensity: 'moderate', met: 9.8 }, { intensity: 'vigorous', met: 11.5 }] },
+  { id: 'cycling', nameKey: 'log.activities.cycling', intensities: [{ intensity: 'light', met: 4.0 }, { intensity: 'moderate', met: 8.0 }, { intensity: 'vigorous', met: 10.0 }] },
+  { id: 'swimming', nameKey: 'log.activities.swimming', intensities: [{ intensity: 'light', met: 5.8 }, { intensity: 'moderate', met: 8.3 }, { intensity: 'vigorous', met: 9.8 }] },
+  { id: 'weight_lifting', nameKey: 'log.activities.weight_lifting', intensities: [{ intensity: 'light', met: 3.5 }, { intensity: 'vigorous', met: 6.0 }] },
+  { id: 'yoga', nameKey: 'log.activities.yoga', intensities: [{ intensity: 'light', met: 2.5 }, { intensity: 'vigorous', met: 4.0 }] },
+  { id: 'pilates', nameKey: 'log.activities.pilates', intensities: [{ intensity: 'moderate', met: 3.0 }] },
+  { id: 'stretching', nameKey: 'log.activities.stretching', intensities: [{ intensity: 'light', met: 2.3 }] },
+  { id: 'hiking', nameKey: 'log.activities.hiking', intensities: [{ intensity: 'moderate', met: 6.0 }, { intensity: 'vigorous', met: 7.8 }] },
+  { id: 'elliptical', nameKey: 'log.activities.elliptical', intensities: [{ intensity: 'moderate', met: 5.0 }] },
+  { id: 'rowing', nameKey: 'log.activities.rowing', intensities: [{ intensity: 'light', met: 4.8 }, { intensity: 'moderate', met: 7.0 }, { intensity: 'vigorous', met: 8.5 }] },
+  { id: 'stair_climbing', nameKey: 'log.activities.stair_climbing', intensities: [{ intensity: 'light', met: 4.0 }, { intensity: 'vigorous', met: 8.8 }] },
+  { id: 'jump_rope', nameKey: 'log.activities.jump_rope', intensities: [{ intensity: 'light', met: 8.8 }, { intensity: 'moderate', met: 11.8 }, { intensity: 'vigorous', met: 12.3 }] },
+  { id: 'hiit', nameKey: 'log.activities.hiit', intensities: [{ intensity: 'vigorous', met: 8.0 }] },
+  { id: 'dancing', nameKey: 'log.activities.dancing', intensities: [{ intensity: 'moderate', met: 5.0 }, { intensity: 'vigorous', met: 7.3 }] },
+  { id: 'basketball', nameKey: 'log.activities.basketball', intensities: [{ intensity: 'moderate', met: 6.5 }, { intensity: 'vigorous', met: 8.0 }] },
+  { id: 'soccer', nameKey: 'log.activities.soccer', intensities: [{ intensity: 'moderate', met: 7.0 }, { intensity: 'vigorous', met: 10.0 }] },
+  { id: 'tennis', nameKey: 'log.activities.tennis', intensities: [{ intensity: 'moderate', met: 6.0 }, { intensity: 'vigorous', met: 8.0 }] },
+  { id: 'badminton', nameKey: 'log.activities.badminton', intensities: [{ intensity: 'moderate', met: 5.5 }, { intensity: 'vigorous', met: 7.0 }] },
+];
+
+export const getActivityById = (id: string): Activity | undefined => {
+  return activityCatalogue.find(activity => activity.id === id);
+};
+
+/**
+ * Picks the moderate intensity when an activity has one, otherwise its first
+ */
+export const getDefaultIntensity = (activity: Activity): ActivityIntensity => {
+  return activity.intensities.find(i => i.intensity === 'moderate') || activity.intensities[0];
+};
+
+/**
+ * kcal = MET × weight (kg) × duration (hours)
+ */
+export const calculateMetCalories = (met: number, weightKg: number | null, durationMinutes: number): number => {
+  const weight = weightKg || DEFAULT_WEIGHT_KG;
+  return Math.round(met * weight * (durationMinutes / 60));
+};
+
+/**
+ * Searches the catalogue by translated name and by id, so English terms
+ * still match when the UI is in another language
+ */
+export const searchActivities = (query: string, t: (key: string) => string, limit = 6): Activity[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  return activityCatalogue
+    .filter(activity => t(activity.nameKey).toLowerCase().includes(q) || activity.id.replace(/_/g, ' ').includes(q))
+    .slice(0, limit);
+};
+
+/**
+ * Returns the activity whose translated name equals the given text, if any
+ */
+export const findActivityByName = (name: string, t: (key: string) => string): Activity | undefined => {
+  const q = name.trim().toLowerCase();
+  if (!q) return undefined;
+  return activityCatalogue.find(activity => t(activity.nameKey).toLowerCase() === q || activity.id.replace(/_/g, ' ') === q);
+};
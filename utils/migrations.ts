@@ -0,0 +1,76 @@
+import { AppState, DailyLog } from '../types';
+import { toDateKey, toTimeOfDay } from './date';
+
+type StateMigration = (state: Partial<AppState>) => Partial<AppState>;
+
+// Ids of entries created through the UI start with their Date.now() creation time
+const getEntryTimestamp = (id: string): number | null => {
+  const match = id.match(/^(\d{13})(?:-\d+)?$/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Logs used to be keyed by UTC date, so entries logged for "today" were filed under
+ * the UTC day of their creation time. Those move to the local day they were created on.
+ * Entries under any other key were logged for another day or moved there on purpose,
+ * so they stay put.
+ */
+export const rekeyLogsToLocalDays = (logs: Record<string, DailyLog>, dayStartHour = 0): Record<string, DailyLog> => {
+  const rekeyed: Record<string, DailyLog> = {};
+  const target = (date: string) => rekeyed[date] || (rekeyed[date] = { food: [], exercise: [] });
+
+  const resolveDate = (date: string, id: string): string => {
+    const timestamp = getEntryTimestamp(id);
+    if (timestamp === null) return date;
+    const created = new Date(timestamp);
+    // The old, UTC-based key this entry would have received when it was created
+    const utcKey = created.toISOString().split('T')[0];
+    return utcKey === date ? toDateKey(created, dayStartHour) : date;
+  };
+
+  Object.entries(logs).forEach(([date, log]) => {
+    log.food.forEach(entry => target(resolveDate(date, entry.id)).food.push(entry));
+    log.exercise.forEach(entry => target(resolveDate(date, entry.id)).exercise.push(entry));
+  });
+  return rekeyed;
+};
+
+/**
+ * Gives entries without a time the time they were created at, when that falls on
+ * the day they are logged under. Entries logged for another day stay without one.
+ */
+export const addEntryTimes = (logs: Record<string, DailyLog>, dayStartHour = 0): Record<string, DailyLog> => {
+  const withTime = <T extends { id: string; time?: string }>(date: string, entry: T): T => {
+    const timestamp = getEntryTimestamp(entry.id);
+    if (entry.time || timestamp === null) return entry;
+    const created = new Date(timestamp);
+    return toDateKey(created, dayStartHour) === date ? { ...entry, time: toTimeOfDay(created) } : entry;
+  };
+
+  const timed: Record<string, DailyLog> = {};
+  Object.entries(logs).forEach(([date, log]) => {
+    timed[date] = { ...log, food: log.food.map(entry => withTime(date, entry)), exercise: log.exercise.map(entry => withTime(date, entry)) };
+  });
+  return timed;
+};
+
+// stateMigrations[n] upgrades saved state from schema version n to n + 1. Append new steps, never edit old ones.
+const stateMigrations: StateMigration[] = [
+  // v1: UTC-keyed logs to local calendar days
+  (state) => ({ ...state, logs: rekeyLogsToLocalDays(state.logs || {}, state.dayStartHour || 0) }),
+  // v2: entry times backfilled from creation time
+  (state) => ({ ...state, logs: addEntryTimes(state.logs || {}, state.dayStartHour || 0) }),
+];
+
+export const SCHEMA_VERSION = stateMigrations.length;
+
+/**
+ * Brings saved or imported state up to the current schema version
+ */
+export const migrateState = (state: Partial<AppState>): Partial<AppState> => {
+  let migrated = state;
+  for (let version = state.schemaVersion || 0; version < SCHEMA_VERSION; version++) {
+    migrated = stateMigrations[version](migrated);
+  }
+  return { ...migrated, schemaVersion: SCHEMA_VERSION };
+};
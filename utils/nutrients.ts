@@ -0,0 +1,73 @@
+import { FoodEntry, Micronutrient, Micronutrients, NutrientGoal, Portion } from '../types';
+import { getPortionGrams } from './portions';
+
+export const MICRONUTRIENTS: { key: Micronutrient; unit: 'g' | 'mg' | 'µg' }[] = [
+  { key: 'fiber', unit: 'g' },
+  { key: 'sugar', unit: 'g' },
+  { key: 'saturatedFat', unit: 'g' },
+  { key: 'sodium', unit: 'mg' },
+  { key: 'cholesterol', unit: 'mg' },
+  { key: 'potassium', unit: 'mg' },
+  { key: 'calcium', unit: 'mg' },
+  { key: 'iron', unit: 'mg' },
+  { key: 'vitaminC', unit: 'mg' },
+  { key: 'vitaminD', unit: 'µg' },
+];
+
+// Adult daily values from the US FDA label reference, rounded
+export const DEFAULT_NUTRIENT_GOALS: Record<Micronutrient, NutrientGoal> = {
+  fiber: { amount: 28, kind: 'target' },
+  sugar: { amount: 50, kind: 'limit' },
+  saturatedFat: { amount: 20, kind: 'limit' },
+  sodium: { amount: 2300, kind: 'limit' },
+  cholesterol: { amount: 300, kind: 'limit' },
+  potassium: { amount: 4700, kind: 'target' },
+  calcium: { amount: 1300, kind: 'target' },
+  iron: { amount: 18, kind: 'target' },
+  vitaminC: { amount: 90, kind: 'target' },
+  vitaminD: { amount: 20, kind: 'target' },
+};
+
+export interface NutrientTotals {
+  totals: Micronutrients;
+  counted: number; // food entries that had any micronutrient data
+}
+
+/**
+ * Sums the micronutrients of a day's food. Nutrients no entry reported stay undefined
+ * rather than showing as zero.
+ */
+export const sumMicronutrients = (food: Pick<FoodEntry, 'micronutrients'>[]): NutrientTotals => {
+  const totals: Micronutrients = {};
+  let counted = 0;
+  food.forEach(entry => {
+    if (!entry.micronutrients) return;
+    counted++;
+    MICRONUTRIENTS.forEach(({ key }) => {
+      const amount = entry.micronutrients?.[key];
+      if (amount !== undefined) totals[key] = (totals[key] || 0) + amount;
+    });
+  });
+  return { totals, counted };
+};
+
+/**
+ * Rescales micronutrients estimated for one portion to another. Without both
+ * portions there is nothing to scale by, so the values are kept.
+ */
+export const scaleMicronutrients = (
+  micronutrients: Micronutrients | undefined,
+  from: Portion | undefined,
+  to: Portion | undefined
+): Micronutrients | undefined => {
+  if (!micronutrients || !from || !to) return micronutrients;
+  const fromGrams = getPortionGrams(from);
+  if (!(fromGrams > 0)) return micronutrients;
+  const factor = getPortionGrams(to) / fromGrams;
+  const scaled: Micronutrients = {};
+  MICRONUTRIENTS.forEach(({ key }) => {
+    const amount = micronutrients[key];
+    if (amount !== undefined) scaled[key] = Math.round(amount * factor * 10) / 10;
+  });
+  return scaled;
+};
@@ -0,0 +1,125 @@
+import { GoalPlan, MacronutrientGoals, UserProfile } from '../types';
+import { addDaysToKey, daysBetweenKeys, toDateKey } from './date';
+
+const KCAL_PER_KG = 7700;
+// Below this the deviation from the planned weight counts as on track
+const ON_TRACK_TOLERANCE_KG = 0.5;
+// Guardrails, as a share of body weight per week
+const MAX_CUT_RATE = 0.01;
+const MAX_BULK_RATE = 0.005;
+const MIN_CALORIES = { male: 1500, female: 1200 };
+const MIN_TARGET_BMI = 18.5;
+
+// Protein in g per kg of body weight and the share of calories from fat, per phase
+const MACRO_SPLITS: Record<GoalPlan['phase'], { proteinPerKg: number; fatShare: number }> = {
+  cut: { proteinPerKg: 2.0, fatShare: 0.25 },
+  maintain: { proteinPerKg: 1.6, fatShare: 0.3 },
+  bulk: { proteinPerKg: 1.8, fatShare: 0.25 },
+};
+
+export type PlanIssue = 'direction_mismatch' | 'rate_too_fast' | 'below_minimum' | 'target_underweight' | 'date_passed';
+
+export type PlanStatus = 'ahead' | 'on_track' | 'behind';
+
+export interface PlanTargets {
+  dailyGoal: number;
+  macronutrientGoals: MacronutrientGoals;
+  weeklyRate: number; // signed kg per week
+}
+
+export interface PlanProgress {
+  expectedWeight: number;
+  status: PlanStatus;
+  plannedCompletion: string | null;
+  projectedCompletion: string | null;
+}
+
+/**
+ * Signed weekly rate of the plan in kg: negative for a cut, positive for a bulk.
+ * A target date takes precedence over the stored rate.
+ */
+export const getPlanWeeklyRate = (plan: GoalPlan): number => {
+  if (plan.phase === 'maintain') return 0;
+  const direction = plan.phase === 'cut' ? -1 : 1;
+  if (plan.targetDate) {
+    const weeks = daysBetweenKeys(plan.startDate, plan.targetDate) / 7;
+    if (weeks <= 0) return 0;
+    return direction * Math.abs(plan.targetWeight - plan.startWeight) / weeks;
+  }
+  return direction * Math.abs(plan.weeklyRate || 0);
+};
+
+/**
+ * Derives the daily calorie target from maintenance calories and the planned rate,
+ * and splits it into macros: protein by body weight, a fixed share of fat, carbs for the rest
+ */
+export const derivePlanTargets = (plan: GoalPlan, maintenanceCalories: number, weight: number): PlanTargets => {
+  const weeklyRate = getPlanWeeklyRate(plan);
+  const dailyGoal = Math.round((maintenanceCalories + (weeklyRate * KCAL_PER_KG) / 7) / 10) * 10;
+  const split = MACRO_SPLITS[plan.phase];
+  const protein = Math.round(weight * split.proteinPerKg);
+  const fat = Math.round((dailyGoal * split.fatShare) / 9);
+  const carbs = Math.max(0, Math.round((dailyGoal - protein * 4 - fat * 9) / 4));
+  return { dailyGoal, macronutrientGoals: { protein, carbs, fat }, weeklyRate };
+};
+
+/**
+ * Checks a plan against the profile and returns every guardrail it breaks
+ */
+export const validatePlan = (plan: GoalPlan, targets: PlanTargets, profile: UserProfile, today: string = toDateKey(new Date())): PlanIssue[] => {
+  const issues: PlanIssue[] = [];
+  const change = plan.targetWeight - plan.startWeight;
+
+  if ((plan.phase === 'cut' && change >= 0) || (plan.phase === 'bulk' && change <= 0)) {
+    issues.push('direction_mismatch');
+  }
+  const maxRate = plan.phase === 'cut' ? MAX_CUT_RATE : MAX_BULK_RATE;
+  if (Math.abs(targets.weeklyRate) > plan.startWeight * maxRate) {
+    issues.push('rate_too_fast');
+  }
+  if (profile.sex && targets.dailyGoal < MIN_CALORIES[profile.sex]) {
+    issues.push('below_minimum');
+  }
+  if (profile.height) {
+    const heightM = profile.height / 100;
+    if (plan.targetWeight / (heightM * heightM) < MIN_TARGET_BMI) {
+      issues.push('target_underweight');
+    }
+  }
+  if (plan.phase !== 'maintain' && plan.targetDate && plan.targetDate <= today) {
+    issues.push('date_passed');
+  }
+  return issues;
+};
+
+/**
+ * Compares the current trend weight with where the plan expects it to be today,
+ * and projects completion from the actual weekly rate of the trend
+ */
+export const getPlanProgress = (plan: GoalPlan, currentWeight: number, actualWeeklyRate: number | null, todayString: string = toDateKey(new Date())): PlanProgress => {
+  const weeklyRate = getPlanWeeklyRate(plan);
+  const elapsedWeeks = Math.max(0, daysBetweenKeys(plan.startDate, todayString)) / 7;
+  const plannedChange = weeklyRate * elapsedWeeks;
+  const totalChange = plan.targetWeight - plan.startWeight;
+  const expectedWeight = plan.phase === 'maintain'
+    ? plan.startWeight
+    : plan.startWeight + (Math.abs(plannedChange) > Math.abs(totalChange) ? totalChange : plannedChange);
+
+  // Positive when the trend is further along in the plan's direction than expected
+  const direction = plan.phase === 'bulk' ? 1 : -1;
+  const lead = plan.phase === 'maintain'
+    ? -Math.abs(currentWeight - plan.startWeight)
+    : (currentWeight - expectedWeight) * direction;
+  const status: PlanStatus = Math.abs(lead) <= ON_TRACK_TOLERANCE_KG ? 'on_track' : lead > 0 ? 'ahead' : 'behind';
+
+  const plannedCompletion = weeklyRate !== 0
+    ? addDaysToKey(plan.startDate, Math.ceil((totalChange / weeklyRate) * 7))
+    : null;
+
+  const remaining = plan.targetWeight - currentWeight;
+  const projectedCompletion = plan.phase !== 'maintain' && actualWeeklyRate && Math.sign(actualWeeklyRate) === Math.sign(remaining)
+    ? addDaysToKey(todayString, Math.ceil((remaining / actualWeeklyRate) * 7))
+    : null;
+
+  return { expectedWeight: Math.round(expectedWeight * 10) / 10, status, plannedCompletion, projectedCompletion };
+};
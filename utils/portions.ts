@@ -0,0 +1,82 @@
+import { FoodAnalysis, Nutrition, Portion, ServingUnit } from '../types';
+
+export const servingUnits: ServingUnit[] = ['g', 'ml', 'piece', 'cup', 'serving'];
+
+// Typical weight of one unit; piece and serving depend on the food, so these are only starting points
+export const defaultGramsPerUnit: Record<ServingUnit, number> = {
+  g: 1,
+  ml: 1,
+  piece: 50,
+  cup: 240,
+  serving: 100,
+};
+
+export const defaultPortion: Portion = { quantity: 1, unit: 'serving', gramsPerUnit: defaultGramsPerUnit.serving };
+
+/**
+ * True for units whose weight is fixed, so the grams-per-unit field can be hidden
+ */
+export const isMassUnit = (unit: ServingUnit): boolean => unit === 'g' || unit === 'ml';
+
+export const getPortionGrams = (portion: Portion): number => portion.quantity * portion.gramsPerUnit;
+
+/**
+ * Returns the portion with its grams-per-unit reset to the default for the new unit
+ */
+export const changePortionUnit = (portion: Portion, unit: ServingUnit): Portion => ({
+  ...portion,
+  unit,
+  gramsPerUnit: defaultGramsPerUnit[unit],
+});
+
+/**
+ * Converts nutrition for a portion into its per-100g base
+ */
+export const toPer100g = (nutrition: Nutrition, portion: Portion): Nutrition | undefined => {
+  const grams = getPortionGrams(portion);
+  if (!(grams > 0)) return undefined;
+  const factor = 100 / grams;
+  return {
+    calories: nutrition.calories * factor,
+    protein: nutrition.protein * factor,
+    carbs: nutrition.carbs * factor,
+    fat: nutrition.fat * factor,
+  };
+};
+
+/**
+ * Scales per-100g base nutrition to a portion, rounded the way entries are displayed
+ */
+export const scaleNutrition = (per100g: Nutrition, portion: Portion): Nutrition => {
+  const factor = getPortionGrams(portion) / 100;
+  return {
+    calories: Math.round(per100g.calories * factor),
+    protein: Math.round(per100g.protein * factor),
+    carbs: Math.round(per100g.carbs * factor),
+    fat: Math.round(per100g.fat * factor),
+  };
+};
+
+/**
+ * Builds the portion an AI estimate assumed, falling back to one default serving
+ */
+export const portionFromAnalysis = (analysis: FoodAnalysis): Portion => {
+  const unit = analysis.servingUnit && servingUnits.includes(analysis.servingUnit) ? analysis.servingUnit : 'serving';
+  const quantity = analysis.servingQuantity && analysis.servingQuantity > 0 ? analysis.servingQuantity : 1;
+  const gramsPerUnit = isMassUnit(unit)
+    ? 1
+    : analysis.servingGrams && analysis.servingGrams > 0 ? analysis.servingGrams / quantity : defaultGramsPerUnit[unit];
+  return { quantity, unit, gramsPerUnit };
+};
+
+/**
+ * Formats a portion for display, e.g. "150 g" or "1.5 cup (360 g)"
+ */
+export const formatPortion = (portion: Portion, unitLabel: string): string => {
+  const quantity = Number(portion.quantity.toFixed(2));
+  if (isMassUnit(portion.unit)) return `${quantity} ${unitLabel}`;
+  return `${quantity} ${unitLabel} (${Math.round(getPortionGrams(portion))} g)`;
+};
+
+export const isSamePortion = (a: Portion, b: Portion): boolean =>
+  a.quantity === b.quantity && a.unit === b.unit && a.gramsPerUnit === b.gramsPerUnit;
@@ -0,0 +1,86 @@
+import { CustomFood, FoodEntry, Micronutrients, Nutrition, Recipe, RecipeIngredient } from '../types';
+import { sumMicronutrients, scaleMicronutrients } from './nutrients';
+import { defaultPortion, getPortionGrams, scaleNutrition, toPer100g } from './portions';
+
+export interface RecipeNutrition {
+  perServing: Nutrition;
+  servingGrams: number;
+  micronutrients?: Micronutrients; // per serving
+}
+
+const emptyNutrition: Nutrition = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+/**
+ * The per-100g base and micronutrients of an ingredient. One added from My Foods
+ * follows the saved food, so editing that food changes the recipe from then on.
+ */
+const resolveIngredient = (ingredient: RecipeIngredient, customFoods: CustomFood[]): Pick<RecipeIngredient, 'per100g' | 'micronutrients'> => {
+  const food = ingredient.customFoodId ? customFoods.find(f => f.id === ingredient.customFoodId) : undefined;
+  if (!food) return ingredient;
+  const foodPortion = food.portion || defaultPortion;
+  return {
+    per100g: food.per100g || toPer100g(food, foodPortion) || ingredient.per100g,
+    micronutrients: scaleMicronutrients(food.micronutrients, foodPortion, ingredient.portion),
+  };
+};
+
+export const getIngredientNutrition = (ingredient: RecipeIngredient, customFoods: CustomFood[]): Nutrition => {
+  return scaleNutrition(resolveIngredient(ingredient, customFoods).per100g, ingredient.portion);
+};
+
+/**
+ * Per-serving nutrition of a recipe from its ingredients' current values
+ */
+export const getRecipeNutrition = (recipe: Recipe, customFoods: CustomFood[]): RecipeNutrition => {
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const resolved = recipe.ingredients.map(ingredient => resolveIngredient(ingredient, customFoods));
+
+  const total = recipe.ingredients.reduce((sum, ingredient, index) => {
+    const factor = getPortionGrams(ingredient.portion) / 100;
+    const base = resolved[index].per100g;
+    return {
+      calories: sum.calories + base.calories * factor,
+      protein: sum.protein + base.protein * factor,
+      carbs: sum.carbs + base.carbs * factor,
+      fat: sum.fat + base.fat * factor,
+    };
+  }, emptyNutrition);
+  const totalGrams = recipe.ingredients.reduce((sum, ingredient) => sum + getPortionGrams(ingredient.portion), 0);
+  const { totals, counted } = sumMicronutrients(resolved);
+
+  const micronutrients: Micronutrients = {};
+  (Object.keys(totals) as (keyof Micronutrients)[]).forEach(key => {
+    micronutrients[key] = Math.round(((totals[key] as number) / servings) * 10) / 10;
+  });
+
+  return {
+    perServing: {
+      calories: Math.round(total.calories / servings),
+      protein: Math.round(total.protein / servings),
+      carbs: Math.round(total.carbs / servings),
+      fat: Math.round(total.fat / servings),
+    },
+    servingGrams: totalGrams / servings,
+    micronutrients: counted > 0 ? micronutrients : undefined,
+  };
+};
+
+/**
+ * A food entry for some servings of a recipe, e.g. 1.5 servings of chili.
+ * The entry keeps the values from the moment it's logged, so later recipe edits leave it alone.
+ */
+export const recipeToFood = (recipe: Recipe, servings: number, customFoods: CustomFood[]): Omit<FoodEntry, 'id' | 'meal'> => {
+  const { perServing, servingGrams, micronutrients } = getRecipeNutrition(recipe, customFoods);
+  const servingPortion = { quantity: 1, unit: 'serving' as const, gramsPerUnit: servingGrams };
+  const portion = { ...servingPortion, quantity: servings };
+  return {
+    name: recipe.name,
+    calories: Math.round(perServing.calories * servings),
+    protein: Math.round(perServing.protein * servings),
+    carbs: Math.round(perServing.carbs * servings),
+    fat: Math.round(perServing.fat * servings),
+    portion,
+    per100g: toPer100g(perServing, servingPortion),
+    micronutrients: scaleMicronutrients(micronutrients, servingPortion, portion),
+  };
+};
@@ -0,0 +1,28 @@
+import { AppState, DayTarget } from '../types';
+import { getWeekdayOfKey } from './date';
+
+export type TargetSource = 'date' | 'weekday' | 'default';
+
+export interface ResolvedTarget extends DayTarget {
+  source: TargetSource;
+}
+
+// Sunday first, matching Date.getDay()
+export const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Resolves the calorie and macro target for a date: a one-off override wins,
+ * then the weekly schedule, then the global goal
+ */
+export const resolveTargets = (
+  state: Pick<AppState, 'dailyGoal' | 'macronutrientGoals' | 'weekdayTargets' | 'dateTargets'>,
+  date: string
+): ResolvedTarget => {
+  const override = state.dateTargets[date];
+  if (override) return { ...override, source: 'date' };
+
+  const weekday = state.weekdayTargets[getWeekdayOfKey(date)];
+  if (weekday) return { ...weekday, source: 'weekday' };
+
+  return { dailyGoal: state.dailyGoal, macronutrientGoals: state.macronutrientGoals, source: 'default' };
+};
@@ -0,0 +1,104 @@
+import { BodyMeasurement, DailyLog, UserProfile } from '../types';
+import { calculateWeightTrend } from './weightTrend';
+import { addDaysToKey, daysBetweenKeys, toDateKey } from './date';
+
+// Approximate energy content of one kilogram of body mass change
+const KCAL_PER_KG = 7700;
+const WINDOW_DAYS = 28;
+export const MIN_SPAN_DAYS = 14;
+const MIN_LOGGED_DAYS = 10;
+// Standard deviation of an EMA with the trend's 0.1 smoothing, relative to the daily noise
+const TREND_NOISE_FACTOR = Math.sqrt(0.1 / (2 - 0.1));
+
+const activityMultipliers: Record<UserProfile['activityLevel'], number> = {
+  sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, very_active: 1.9
+};
+
+export interface AdaptiveTdeeEstimate {
+  tdee: number;
+  low: number;
+  high: number;
+  averageIntake: number;
+  weightChange: number; // kg of trend change over the window
+  days: number;
+  loggedDays: number;
+}
+
+export interface AdaptiveTdeeProgress {
+  estimate: AdaptiveTdeeEstimate | null;
+  days: number; // span covered by weigh-ins in the window so far
+  loggedDays: number;
+}
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Mifflin-St Jeor BMR times the profile's activity multiplier, or null if the profile is incomplete
+ */
+export const calculateFormulaTdee = (profile: UserProfile): number | null => {
+  const { age, sex, weight, height, activityLevel } = profile;
+  if (!age || !sex || !weight || !height) return null;
+
+  const bmr = 10 * weight + 6.25 * height - 5 * age + (sex === 'male' ? 5 : -161);
+  return Math.round(bmr * activityMultipliers[activityLevel]);
+};
+
+/**
+ * Estimates real expenditure from energy balance over the last four weeks:
+ * average logged intake minus the calories implied by the weight trend's change.
+ * Days without any food logged are left out of the intake average rather than counted as zero.
+ */
+export const estimateAdaptiveTdee = (
+  logs: Record<string, DailyLog>,
+  measurements: Record<string, BodyMeasurement>,
+  today: string = toDateKey(new Date())
+): AdaptiveTdeeProgress => {
+  const end = today;
+  const start = addDaysToKey(today, -WINDOW_DAYS);
+
+  const points = calculateWeightTrend(measurements).filter(p => p.date >= start && p.date <= end);
+  if (points.length < 2) return { estimate: null, days: 0, loggedDays: 0 };
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const days = daysBetweenKeys(first.date, last.date);
+
+  const intakes = Object.entries(logs)
+    .filter(([date, log]) => date >= first.date && date <= last.date && log.food.length > 0)
+    .map(([, log]) => log.food.reduce((sum, item) => sum + item.calories, 0));
+  const loggedDays = intakes.length;
+
+  if (days < MIN_SPAN_DAYS || loggedDays < MIN_LOGGED_DAYS) {
+    return { estimate: null, days, loggedDays };
+  }
+
+  const averageIntake = mean(intakes);
+  const weightChange = last.trend - first.trend;
+  const tdee = averageIntake - (weightChange * KCAL_PER_KG) / days;
+
+  // Combine the uncertainty of the average intake with the noise left in the two trend values
+  const intakeError = standardDeviation(intakes) / Math.sqrt(loggedDays);
+  const weighInNoise = standardDeviation(points.map(p => p.weight - p.trend));
+  const weightError = (Math.SQRT2 * weighInNoise * TREND_NOISE_FACTOR * KCAL_PER_KG) / days;
+  const margin = 1.96 * Math.sqrt(intakeError ** 2 + weightError ** 2);
+
+  return {
+    estimate: {
+      tdee: Math.round(tdee),
+      low: Math.round(tdee - margin),
+      high: Math.round(tdee + margin),
+      averageIntake: Math.round(averageIntake),
+      weightChange: Math.round(weightChange * 10) / 10,
+      days,
+      loggedDays,
+    },
+    days,
+    loggedDays,
+  };
+};
@@ -0,0 +1,72 @@
+import { DailyLog, ExerciseEntry, FoodEntry } from '../types';
+import { minutesSinceDayStart } from './date';
+
+// Foods eaten within this many minutes of the previous one count as the same meal
+const SAME_MEAL_MINUTES = 30;
+
+export type TimelineItem =
+  | { kind: 'food'; entry: FoodEntry }
+  | { kind: 'exercise'; entry: ExerciseEntry };
+
+export interface EatingStats {
+  firstMeal: string;
+  lastMeal: string;
+  meals: number;
+  eatingWindow: number; // minutes from the first to the last meal
+  fastBefore: number | null; // minutes since the previous day's last meal
+  averageSpacing: number | null; // minutes between the starts of consecutive meals
+  longestSpacing: number | null;
+}
+
+/**
+ * Interleaves a day's food and exercise in the order they happened.
+ * Entries without a time keep their logged order after the timed ones.
+ */
+export const buildTimeline = (log: DailyLog, dayStartHour = 0): TimelineItem[] => {
+  const items: TimelineItem[] = [
+    ...log.food.map(entry => ({ kind: 'food' as const, entry })),
+    ...log.exercise.map(entry => ({ kind: 'exercise' as const, entry })),
+  ];
+  const timed = items.filter(item => item.entry.time);
+  const untimed = items.filter(item => !item.entry.time);
+  // Array.sort is stable, so entries at the same minute stay in logged order
+  timed.sort((a, b) => minutesSinceDayStart(a.entry.time as string, dayStartHour) - minutesSinceDayStart(b.entry.time as string, dayStartHour));
+  return [...timed, ...untimed];
+};
+
+const eatingTimes = (log: DailyLog | undefined, dayStartHour: number): { time: string; offset: number }[] => {
+  return (log?.food || [])
+    .filter(entry => entry.time)
+    .map(entry => ({ time: entry.time as string, offset: minutesSinceDayStart(entry.time as string, dayStartHour) }))
+    .sort((a, b) => a.offset - b.offset);
+};
+
+/**
+ * Eating window, overnight fast and meal spacing from the times foods were eaten,
+ * or null if no food that day has a time
+ */
+export const getEatingStats = (log: DailyLog, previousLog: DailyLog | undefined, dayStartHour = 0): EatingStats | null => {
+  const times = eatingTimes(log, dayStartHour);
+  if (times.length === 0) return null;
+
+  const mealStarts: number[] = [];
+  times.forEach(({ offset }, index) => {
+    if (index === 0 || offset - times[index - 1].offset > SAME_MEAL_MINUTES) mealStarts.push(offset);
+  });
+  const spacings = mealStarts.slice(1).map((start, index) => start - mealStarts[index]);
+
+  const first = times[0];
+  const last = times[times.length - 1];
+  const previousTimes = eatingTimes(previousLog, dayStartHour);
+  const previousLast = previousTimes[previousTimes.length - 1];
+
+  return {
+    firstMeal: first.time,
+    lastMeal: last.time,
+    meals: mealStarts.length,
+    eatingWindow: last.offset - first.offset,
+    fastBefore: previousLast ? 1440 - previousLast.offset + first.offset : null,
+    averageSpacing: spacings.length > 0 ? Math.round(spacings.reduce((a, b) => a + b, 0) / spacings.length) : null,
+    longestSpacing: spacings.length > 0 ? Math.max(...spacings) : null,
+  };
+};
@@ -0,0 +1,58 @@
+import { BodyMeasurement } from '../types';
+import { daysBetweenKeys } from './date';
+
+// Smoothing factor per day, as in the classic 10% exponentially smoothed moving average
+const TREND_ALPHA = 0.1;
+
+export interface WeightTrendPoint {
+  date: string;
+  weight: number;
+  trend: number;
+}
+
+/**
+ * Builds the exponentially smoothed weight trend from dated weigh-ins.
+ * Gaps between weigh-ins count as several days of smoothing, so a weigh-in
+ * after a long break pulls the trend further than a daily one.
+ */
+export const calculateWeightTrend = (measurements: Record<string, BodyMeasurement>): WeightTrendPoint[] => {
+  const weighIns = Object.entries(measurements)
+    .filter(([, m]) => typeof m.weight === 'number' && m.weight > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const points: WeightTrendPoint[] = [];
+  weighIns.forEach(([date, m]) => {
+    const weight = m.weight as number;
+    const previous = points[points.length - 1];
+    if (!previous) {
+      points.push({ date, weight, trend: weight });
+      return;
+    }
+    const days = Math.max(1, daysBetweenKeys(previous.date, date));
+    const alpha = 1 - Math.pow(1 - TREND_ALPHA, days);
+    points.push({ date, weight, trend: previous.trend + alpha * (weight - previous.trend) });
+  });
+  return points;
+};
+
+/**
+ * Returns the trend's rate of change in kg per week, measured over the last
+ * week of data (or everything available if the history is shorter)
+ */
+export const getWeeklyRate = (points: WeightTrendPoint[]): number | null => {
+  if (points.length < 2) return null;
+  const latest = points[points.length - 1];
+  const reference = [...points].reverse().find(p => daysBetweenKeys(p.date, latest.date) >= 7) || points[0];
+  const days = daysBetweenKeys(reference.date, latest.date);
+  if (days <= 0) return null;
+  return ((latest.trend - reference.trend) / days) * 7;
+};
+
+/**
+ * The latest trend value rounded to 0.1 kg, or null when nothing has been logged
+ */
+export const getCurrentTrendWeight = (measurements: Record<string, BodyMeasurement>): number | null => {
+  const points = calculateWeightTrend(measurements);
+  if (points.length === 0) return null;
+  return Math.round(points[points.length - 1].trend * 10) / 10;
+};